@@ -0,0 +1,61 @@
+import { getAgentByName } from "agents";
+import { authErrorResponse, authorizeAdmin, threadOwner } from "./auth";
+import type { Env } from "./server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const THREAD_TRACES_PATH = /^\/admin\/threads\/([^/]+)\/traces$/;
+const USER_STATS_PATH = /^\/admin\/users\/([^/]+)\/stats$/;
+
+/** A whole-number query parameter clamped to `[min, max]`, or `fallback` when absent or invalid. */
+function intParam(url: URL, name: string, fallback: number, min: number, max: number) {
+    const value = Number(url.searchParams.get(name) ?? fallback);
+    return Number.isInteger(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+function decodeSegment(segment: string) {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Handles `/admin/*` for operators holding `ADMIN_TOKEN`:
+ * `GET /admin/threads/<thread>/traces` returns a thread's recent turn traces with its
+ * totals, and `GET /admin/users/<userId>/stats` adds up per-tool and per-model stats
+ * across every thread of a user. Threads are named `<userId>:<threadId>`.
+ */
+export async function handleAdminRequest(request: Request, env: Env): Promise<Response> {
+    try {
+        authorizeAdmin(request, env);
+    } catch (err) {
+        return authErrorResponse(err, env);
+    }
+    if (request.method !== "GET") return Response.json({ error: "Method not allowed." }, { status: 405 });
+
+    const url = new URL(request.url);
+    const since = Date.now() - intParam(url, "days", 7, 1, 90) * DAY_MS;
+
+    const threadMatch = THREAD_TRACES_PATH.exec(url.pathname);
+    if (threadMatch) {
+        const thread = decodeSegment(threadMatch[1]);
+        const owner = thread && threadOwner(thread);
+        // Looked up through the owner's index so a mistyped name does not create an empty agent.
+        const known = owner && await (await getAgentByName(env.ThreadIndexAgent, owner)).getThread(thread);
+        if (!known) return Response.json({ error: "No such thread." }, { status: 404 });
+
+        const chat = await getAgentByName(env.ChatAgent, thread);
+        return Response.json(await chat.getTraces(intParam(url, "limit", 50, 1, 100), since));
+    }
+
+    const userMatch = USER_STATS_PATH.exec(url.pathname);
+    if (userMatch) {
+        const userId = decodeSegment(userMatch[1]);
+        if (!userId) return Response.json({ error: "No such user." }, { status: 404 });
+        const index = await getAgentByName(env.ThreadIndexAgent, userId);
+        return Response.json(await index.traceStats(since));
+    }
+
+    return Response.json({ error: "Not found." }, { status: 404 });
+}
@@ -0,0 +1,245 @@
+/**
+ * Authentication settings, read from the Worker environment (`.dev.vars` locally,
+ * secrets in production).
+ */
+export type AuthEnv = {
+    /**
+     * - `session` (default): HS256 session tokens signed with `AUTH_SECRET`.
+     * - `jwt`: RS256 JWTs from an identity provider, verified against `AUTH_JWKS_URL`.
+     * - `dev`: like `session`, plus `POST /auth/dev-login` issues a token for any user ID.
+     */
+    AUTH_MODE?: string;
+    AUTH_SECRET?: string;
+    AUTH_JWKS_URL?: string;
+    AUTH_ISSUER?: string;
+    AUTH_AUDIENCE?: string;
+    /** Bearer token for the `/admin/*` routes, which are disabled while it is unset. */
+    ADMIN_TOKEN?: string;
+};
+
+export type AuthenticatedUser = { userId: string };
+
+/** The agent instance a request is addressed to, as resolved by `routeAgentRequest`. */
+export type AgentTarget = { className: string; name: string };
+
+export class AuthError extends Error {
+    constructor(message: string, readonly status: 401 | 403 | 500) {
+        super(message);
+        this.name = "AuthError";
+    }
+}
+
+export const SESSION_COOKIE = "sage_session";
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+const CLOCK_SKEW_SECONDS = 60;
+const JWKS_CACHE_MS = 10 * 60 * 1000;
+const USER_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const encoder = new TextEncoder();
+
+function authMode(env: AuthEnv) {
+    return (env.AUTH_MODE ?? "session").toLowerCase();
+}
+
+function base64UrlEncode(bytes: Uint8Array | string) {
+    const data = typeof bytes === "string" ? encoder.encode(bytes) : bytes;
+    let binary = "";
+    for (const byte of data) binary += String.fromCharCode(byte);
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+    return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function hmacKey(secret: string, usage: "sign" | "verify") {
+    return crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+}
+
+function requireSecret(env: AuthEnv): string {
+    if (!env.AUTH_SECRET) throw new AuthError("Authentication is not configured: AUTH_SECRET is missing.", 500);
+    return env.AUTH_SECRET;
+}
+
+/** Issues an HS256 session token for `userId`, valid for `ttlSeconds`. */
+export async function signSessionToken(userId: string, secret: string, ttlSeconds = SESSION_TTL_SECONDS): Promise<string> {
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64UrlEncode(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+    const payload = base64UrlEncode(JSON.stringify({ sub: userId, iat: now, exp: now + ttlSeconds }));
+    const signature = await crypto.subtle.sign("HMAC", await hmacKey(secret, "sign"), encoder.encode(`${header}.${payload}`));
+    return `${header}.${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+let jwksCache: { url: string; keys: JsonWebKey[]; fetchedAt: number } | undefined;
+
+async function jwksKeys(url: string): Promise<JsonWebKey[]> {
+    if (jwksCache?.url === url && Date.now() - jwksCache.fetchedAt < JWKS_CACHE_MS) return jwksCache.keys;
+    const res = await fetch(url);
+    if (!res.ok) throw new AuthError(`Could not load signing keys (HTTP ${res.status}).`, 500);
+    const { keys } = (await res.json()) as { keys: JsonWebKey[] };
+    jwksCache = { url, keys, fetchedAt: Date.now() };
+    return keys;
+}
+
+async function verifySignature(env: AuthEnv, alg: string, kid: string | undefined, data: BufferSource, signature: BufferSource) {
+    if (authMode(env) === "jwt") {
+        if (alg !== "RS256") throw new AuthError(`Unsupported token algorithm "${alg}".`, 401);
+        if (!env.AUTH_JWKS_URL) throw new AuthError("Authentication is not configured: AUTH_JWKS_URL is missing.", 500);
+        const jwk = (await jwksKeys(env.AUTH_JWKS_URL)).find((k) => (k as { kid?: string }).kid === kid);
+        if (!jwk) throw new AuthError("Token was signed with an unknown key.", 401);
+        const key = await crypto.subtle.importKey("jwk", jwk, { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }, false, ["verify"]);
+        return crypto.subtle.verify("RSASSA-PKCS1-v1_5", key, signature, data);
+    }
+    if (alg !== "HS256") throw new AuthError(`Unsupported token algorithm "${alg}".`, 401);
+    return crypto.subtle.verify("HMAC", await hmacKey(requireSecret(env), "verify"), signature, data);
+}
+
+/** Verifies a session token or JWT and returns the user it was issued to. */
+export async function verifyToken(token: string, env: AuthEnv): Promise<AuthenticatedUser> {
+    const parts = token.split(".");
+    if (parts.length !== 3) throw new AuthError("Malformed token.", 401);
+
+    let header: { alg?: string; kid?: string };
+    let claims: { sub?: string; exp?: number; nbf?: number; iss?: string; aud?: string | string[] };
+    try {
+        header = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[0])));
+        claims = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+    } catch {
+        throw new AuthError("Malformed token.", 401);
+    }
+
+    const valid = await verifySignature(
+        env,
+        header.alg ?? "",
+        header.kid,
+        encoder.encode(`${parts[0]}.${parts[1]}`),
+        base64UrlDecode(parts[2])
+    );
+    if (!valid) throw new AuthError("Invalid token signature.", 401);
+
+    const now = Math.floor(Date.now() / 1000);
+    // Session tokens always carry `exp`; a token without one would never expire.
+    if (typeof claims.exp !== "number") throw new AuthError("Token has no expiry.", 401);
+    if (claims.exp + CLOCK_SKEW_SECONDS < now) throw new AuthError("Token has expired.", 401);
+    if (claims.nbf !== undefined && claims.nbf - CLOCK_SKEW_SECONDS > now) throw new AuthError("Token is not valid yet.", 401);
+    if (env.AUTH_ISSUER && claims.iss !== env.AUTH_ISSUER) throw new AuthError("Token issuer is not accepted.", 401);
+    if (env.AUTH_AUDIENCE) {
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.includes(env.AUTH_AUDIENCE)) throw new AuthError("Token audience is not accepted.", 401);
+    }
+    if (!claims.sub) throw new AuthError("Token has no subject.", 401);
+
+    return { userId: claims.sub };
+}
+
+function readCookie(request: Request, name: string) {
+    for (const pair of (request.headers.get("Cookie") ?? "").split(";")) {
+        const [key, ...value] = pair.trim().split("=");
+        if (key === name) return value.join("=");
+    }
+    return undefined;
+}
+
+/**
+ * Finds the caller's token: `Authorization: Bearer`, the Cloudflare Access assertion,
+ * the session cookie, or a `token` query parameter for WebSocket clients that cannot
+ * set headers.
+ */
+function extractToken(request: Request) {
+    const authorization = request.headers.get("Authorization");
+    if (authorization?.startsWith("Bearer ")) return authorization.slice(7).trim();
+    return request.headers.get("Cf-Access-Jwt-Assertion")
+        ?? readCookie(request, SESSION_COOKIE)
+        ?? new URL(request.url).searchParams.get("token")
+        ?? undefined;
+}
+
+export async function authenticate(request: Request, env: AuthEnv): Promise<AuthenticatedUser> {
+    const token = extractToken(request);
+    if (!token) throw new AuthError("Authentication required.", 401);
+    return verifyToken(token, env);
+}
+
+/** Chat threads are named `<userId>:<threadId>` so the owner can be read off the name. */
+export function threadInstanceName(userId: string, threadId: string) {
+    return `${userId}:${threadId}`;
+}
+
+export function threadOwner(name: string) {
+    const separator = name.lastIndexOf(":");
+    return separator > 0 ? name.slice(0, separator) : undefined;
+}
+
+/** Rejects access to agent instances that do not belong to `user`. */
+export function authorizeAgent(user: AuthenticatedUser, target: AgentTarget) {
+    const owner = target.className === "ThreadIndexAgent"
+        ? target.name
+        : target.className === "ChatAgent"
+            ? threadOwner(target.name)
+            : undefined;
+    if (owner !== user.userId) {
+        throw new AuthError(`Access to ${target.className} "${target.name}" is not allowed.`, 403);
+    }
+}
+
+/** Compares in constant time, so response timing does not reveal how much of a guess was right. */
+function timingSafeEqual(a: string, b: string) {
+    const x = encoder.encode(a);
+    const y = encoder.encode(b);
+    let diff = x.length ^ y.length;
+    for (let i = 0; i < Math.max(x.length, y.length); i++) diff |= (x[i] ?? 0) ^ (y[i] ?? 0);
+    return diff === 0;
+}
+
+/** Admin routes take `ADMIN_TOKEN` as a Bearer token; user sessions never grant access. */
+export function authorizeAdmin(request: Request, env: AuthEnv) {
+    if (!env.ADMIN_TOKEN) throw new AuthError("Admin routes are disabled: ADMIN_TOKEN is not set.", 403);
+    const authorization = request.headers.get("Authorization");
+    if (!authorization?.startsWith("Bearer ")) throw new AuthError("Admin token required.", 401);
+    if (!timingSafeEqual(authorization.slice(7).trim(), env.ADMIN_TOKEN)) throw new AuthError("Invalid admin token.", 403);
+}
+
+export function authErrorResponse(err: unknown, env: AuthEnv): Response {
+    const error = err instanceof AuthError ? err : new AuthError("Authentication failed.", 401);
+    if (!(err instanceof AuthError)) console.error("[Sage] Authentication error:", err);
+    return Response.json(
+        { error: error.message, devLogin: error.status === 401 && authMode(env) === "dev" },
+        { status: error.status }
+    );
+}
+
+function sessionCookie(value: string, maxAge: number) {
+    return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=${maxAge}`;
+}
+
+/**
+ * Handles `/auth/*`: `GET /auth/session` reports the signed-in user,
+ * `POST /auth/logout` drops the session cookie, and in `dev` mode
+ * `POST /auth/dev-login` with `{ userId }` signs in as that user.
+ */
+export async function handleAuthRequest(request: Request, env: AuthEnv): Promise<Response> {
+    const { pathname } = new URL(request.url);
+    try {
+        if (pathname === "/auth/session" && request.method === "GET") {
+            return Response.json(await authenticate(request, env));
+        }
+        if (pathname === "/auth/logout" && request.method === "POST") {
+            return new Response(null, { status: 204, headers: { "Set-Cookie": sessionCookie("", 0) } });
+        }
+        if (pathname === "/auth/dev-login" && request.method === "POST" && authMode(env) === "dev") {
+            const { userId } = (await request.json().catch(() => ({}))) as { userId?: string };
+            if (!userId || !USER_ID_PATTERN.test(userId)) {
+                return Response.json({ error: "userId must be 1-64 letters, digits, '-' or '_'." }, { status: 400 });
+            }
+            const token = await signSessionToken(userId, requireSecret(env));
+            return Response.json(
+                { userId },
+                { headers: { "Set-Cookie": sessionCookie(token, SESSION_TTL_SECONDS) } }
+            );
+        }
+    } catch (err) {
+        return authErrorResponse(err, env);
+    }
+    return Response.json({ error: "Not found." }, { status: 404 });
+}
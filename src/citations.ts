@@ -0,0 +1,15 @@
+import type { SearchResult } from "./search";
+
+/** A search result with the conversation-wide number the model cites it by. */
+export type CitedSearchResult = SearchResult & { id: string };
+
+export const CITATION_INSTRUCTIONS = `When your answer uses information from searchWeb or searchDocuments results, cite each claim inline with the result's id in square brackets, e.g. "Paris is the capital of France [2]." Use several ids like [1][3] when a claim has more than one source. Only cite ids that appear in the results; never invent sources or URLs.`;
+
+/** Returns the ids cited as `[n]` in `text`, in order of first appearance. */
+export function extractCitations(text: string): string[] {
+    const ids = new Set<string>();
+    for (const match of text.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+        for (const id of match[1].split(",")) ids.add(id.trim());
+    }
+    return [...ids];
+}
@@ -1,16 +1,54 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { createRoot } from "react-dom/client";
 import { useAgent } from "agents/react";
 import { useAgentChat } from "@cloudflare/ai-chat/react";
-import type { UIMessage } from "ai";
+import { getToolName, isToolUIPart } from "ai";
+import type { SourceDocumentUIPart, SourceUrlUIPart, UIMessage } from "ai";
+import type { DeliveryChannelInput } from "./delivery";
+import { Markdown } from "./markdown";
+import { MODELS, resolveModel } from "./models";
+import {
+    BUILT_IN_PERSONAS,
+    DEFAULT_MAX_STEPS,
+    DEFAULT_PERSONA_ID,
+    DEFAULT_TOOL_BUDGET,
+    MAX_STEPS_LIMIT,
+    PERSONA_VARIABLES,
+    TOOL_BUDGET_LIMIT,
+} from "./personas";
+import type { Persona } from "./personas";
+import { MAX_MESSAGE_CHARS } from "./rate-limit";
+import type { ChatRequestRefusal } from "./rate-limit";
+import type { FiredReminder, Reminder } from "./reminders";
+import { DEFAULT_SHARE_TTL_DAYS, SHARE_TTL_DAYS } from "./shares";
+import type {
+    DeliveryChannel,
+    DeliveryLogEntry,
+    DocumentInfo,
+    DocumentKind,
+    MemoryInfo,
+    MessageBranch,
+    SageMessageMetadata,
+    SageState,
+    ShareInfo,
+    Thread,
+    StepLimitNotice,
+    ThreadIndexState,
+    TurnError,
+} from "./state";
+import { getTool, TOOLS } from "./tools";
+import type { ToolCallTrace, TraceStats, TurnTrace } from "./traces";
+import { MAX_IMPORT_CHARS } from "./transcript";
+import type { ExportFile, ExportFormat } from "./transcript";
 
 type ToolPart = {
-    type: "tool";
     toolCallId: string;
     toolName: string;
-    state: "pending" | "approval-required" | "rejected" | "output-available";
+    state: "input-streaming" | "input-available" | "approval-requested" | "approval-responded" | "output-available" | "output-error" | "output-denied";
     input?: Record<string, unknown>;
+    approval?: { id: string; approved?: boolean };
     output?: unknown;
+    errorText?: string;
 };
 
 const SendIcon = () => (
@@ -20,12 +58,24 @@ const SendIcon = () => (
     </svg>
 );
 
+const StopIcon = () => (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+        <rect x="5" y="5" width="14" height="14" rx="2" />
+    </svg>
+);
+
 const TrashIcon = () => (
     <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
         <polyline points="3 6 5 6 21 6" /><path d="M19 6l-1 14H6L5 6" /><path d="M10 11v6" /><path d="M14 11v6" /><path d="M9 6V4h6v2" />
     </svg>
 );
 
+const GearIcon = () => (
+    <svg width="15" height="15" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <circle cx="12" cy="12" r="3" /><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09a1.65 1.65 0 0 0-1-1.51 1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09a1.65 1.65 0 0 0 1.51-1 1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z" />
+    </svg>
+);
+
 const BotIcon = () => (
     <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
         <rect x="3" y="11" width="18" height="10" rx="2" /><circle cx="12" cy="5" r="2" /><path d="M12 7v4" /><line x1="8" y1="16" x2="8" y2="16" /><line x1="16" y1="16" x2="16" y2="16" />
@@ -48,26 +98,15 @@ const ChevronIcon = ({ open }: { open: boolean }) => (
 function ToolCard({ part }: { part: ToolPart; onApprove?: () => void; onReject?: () => void }) {
     const [open, setOpen] = useState(false);
 
-    const toolLabels: Record<string, string> = {
-        searchWeb: "🔍 Web Search",
-        getUserInfo: "🌐 Browser Info",
-        setReminder: "⏰ Set Reminder",
-    };
-
-    const label = toolLabels[part.toolName] ?? part.toolName;
+    const tool = getTool(part.toolName);
+    const label = tool?.ui.label ?? part.toolName;
 
-    const statusMsg: Record<string, string> = {
-        searchWeb: "Querying global intelligence...",
-        getUserInfo: "Synchronizing environment...",
-        setReminder: "Scheduling system event...",
-    };
-
-    if (part.state === "pending") {
+    if (part.state === "input-streaming" || part.state === "input-available" || part.state === "approval-responded") {
         return (
             <div className="tool-card tool-pending">
                 <span className="tool-label">{label}</span>
                 <span className="tool-status-dot" />
-                <span className="tool-status-text">{statusMsg[part.toolName] ?? "Executing..."}</span>
+                <span className="tool-status-text">{tool?.ui.status ?? "Executing..."}</span>
             </div>
         );
     }
@@ -86,6 +125,29 @@ function ToolCard({ part }: { part: ToolPart; onApprove?: () => void; onReject?:
         );
     }
 
+    if (part.state === "output-error") {
+        return (
+            <div className="tool-card tool-done" onClick={() => setOpen(!open)} role="button" tabIndex={0}
+                onKeyDown={(e) => e.key === "Enter" && setOpen(!open)}>
+                <span className="tool-label">{label}</span>
+                <span className="tool-badge error">Failed</span>
+                <ChevronIcon open={open} />
+                {open && (
+                    <pre className="tool-output">{part.errorText}</pre>
+                )}
+            </div>
+        );
+    }
+
+    if (part.state === "output-denied") {
+        return (
+            <div className="tool-card tool-done">
+                <span className="tool-label">{label}</span>
+                <span className="tool-badge error">Rejected</span>
+            </div>
+        );
+    }
+
     return null;
 }
 
@@ -98,10 +160,7 @@ function ApprovalCard({
     onApprove: () => void;
     onReject: () => void;
 }) {
-    const toolLabels: Record<string, string> = {
-        setReminder: "⏰ Set Reminder",
-    };
-    const label = toolLabels[part.toolName] ?? part.toolName;
+    const label = getTool(part.toolName)?.ui.label ?? part.toolName;
 
     return (
         <div className="approval-card">
@@ -121,14 +180,147 @@ function ApprovalCard({
     );
 }
 
+function sourceHost(url: string) {
+    try {
+        return new URL(url).hostname.replace(/^www\./, "");
+    } catch {
+        return url;
+    }
+}
+
+/** A web page (`source-url`) or an uploaded document chunk (`source-document`). */
+type CitedSource = SourceUrlUIPart | SourceDocumentUIPart;
+
+/** Renders `[n]` markers that match a cited source as numbered footnote links. */
+function CitedText({ text, sources }: { text: string; sources: Map<string, CitedSource> }) {
+    if (sources.size === 0) return <>{text}</>;
+
+    return (
+        <>
+            {text.split(/(\[\d+\])/g).map((chunk, i) => {
+                const source = sources.get(chunk.slice(1, -1));
+                if (!/^\[\d+\]$/.test(chunk) || !source) return chunk;
+                if (source.type === "source-document") {
+                    return (
+                        <sup key={i} className="citation-ref">
+                            <span title={source.title}>{source.sourceId}</span>
+                        </sup>
+                    );
+                }
+                return (
+                    <sup key={i} className="citation-ref">
+                        <a href={source.url} target="_blank" rel="noopener noreferrer" title={source.title ?? source.url}>
+                            {source.sourceId}
+                        </a>
+                    </sup>
+                );
+            })}
+        </>
+    );
+}
+
+function SourceChips({ sources }: { sources: CitedSource[] }) {
+    if (sources.length === 0) return null;
+
+    return (
+        <div className="source-chips">
+            <span className="source-chips-label">Sources</span>
+            {sources.map((s) => s.type === "source-document" ? (
+                <span key={s.sourceId} className="source-chip source-chip--document" title={s.title}>
+                    <span className="source-chip-number">{s.sourceId}</span>
+                    <span className="source-chip-title">{s.title}</span>
+                    <span className="source-chip-host">📄</span>
+                </span>
+            ) : (
+                <a key={s.sourceId} className="source-chip" href={s.url} target="_blank" rel="noopener noreferrer" title={s.url}>
+                    <span className="source-chip-number">{s.sourceId}</span>
+                    <span className="source-chip-title">{s.title || sourceHost(s.url)}</span>
+                    <span className="source-chip-host">{sourceHost(s.url)}</span>
+                </a>
+            ))}
+        </div>
+    );
+}
+
+/** Ends an assistant message whose turn failed. Retrying answers the same message again. */
+function TurnErrorCard({ error, busy, onRetry }: { error: TurnError; busy: boolean; onRetry?: () => void }) {
+    return (
+        <div className="turn-error" role="alert">
+            <span className="turn-error-message">{error.message}</span>
+            {onRetry && (
+                <button className="message-edit-btn message-edit-btn--primary" disabled={busy} onClick={onRetry}>
+                    ↻ Retry
+                </button>
+            )}
+        </div>
+    );
+}
+
+type MessageActions = {
+    /** Only offered on the latest assistant message. */
+    onRegenerate?: () => void;
+    onEdit?: (text: string) => void;
+    onSwitchBranch: (messageId: string) => void;
+};
+
+function BranchSwitcher({ branch, disabled, onSwitch }: { branch: MessageBranch; disabled: boolean; onSwitch: (messageId: string) => void }) {
+    const { index, siblingIds } = branch;
+    return (
+        <span className="branch-switcher">
+            <button
+                className="message-action"
+                disabled={disabled || index === 0}
+                onClick={() => onSwitch(siblingIds[index - 1])}
+                aria-label="Previous version"
+                title="Previous version"
+            >
+                ‹
+            </button>
+            <span className="branch-position">{index + 1}/{siblingIds.length}</span>
+            <button
+                className="message-action"
+                disabled={disabled || index === siblingIds.length - 1}
+                onClick={() => onSwitch(siblingIds[index + 1])}
+                aria-label="Next version"
+                title="Next version"
+            >
+                ›
+            </button>
+        </span>
+    );
+}
+
 function MessageBubble({
     msg,
+    branch,
+    busy,
+    actions,
     addToolApprovalResponse,
 }: {
     msg: UIMessage;
+    branch?: MessageBranch;
+    /** A turn is running; branching actions wait until it finishes. */
+    busy: boolean;
+    actions: MessageActions;
     addToolApprovalResponse: (r: { id: string; approved: boolean }) => void;
 }) {
     const isUser = msg.role === "user";
+    const sources = msg.parts.filter((p): p is CitedSource => p.type === "source-url" || p.type === "source-document");
+    // Keyed on the sources' content so finished Markdown blocks are not re-rendered on every streamed chunk.
+    const sourcesKey = JSON.stringify(sources);
+    const renderText = useMemo(() => {
+        const sourcesById = new Map(sources.map((s) => [s.sourceId, s]));
+        return (text: string) => <CitedText text={text} sources={sourcesById} />;
+    }, [sourcesKey]);
+    const text = msg.parts.map((p) => (p.type === "text" ? p.text : "")).join("");
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(text);
+
+    function commitEdit() {
+        const next = draft.trim();
+        setEditing(false);
+        if (next && next !== text.trim()) actions.onEdit?.(next);
+    }
 
     return (
         <div className={`message-row ${isUser ? "message-row--user" : "message-row--assistant"}`}>
@@ -136,43 +328,1212 @@ function MessageBubble({
                 {isUser ? <UserIcon /> : <BotIcon />}
             </div>
             <div className="message-bubble-group">
+                {editing && (
+                    <div className="message-edit">
+                        <textarea
+                            className="message-edit-field"
+                            value={draft}
+                            maxLength={MAX_MESSAGE_CHARS}
+                            autoFocus
+                            rows={Math.min(8, draft.split("\n").length + 1)}
+                            onChange={(e) => setDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === "Enter" && !e.shiftKey) { e.preventDefault(); commitEdit(); }
+                                if (e.key === "Escape") setEditing(false);
+                            }}
+                            aria-label="Edit message"
+                        />
+                        <div className="message-edit-buttons">
+                            <button className="message-edit-btn" onClick={() => setEditing(false)}>Cancel</button>
+                            <button className="message-edit-btn message-edit-btn--primary" disabled={!draft.trim()} onClick={commitEdit}>
+                                Save &amp; send
+                            </button>
+                        </div>
+                    </div>
+                )}
                 {msg.parts.map((part, i) => {
                     if (part.type === "text") {
+                        if (editing) return null;
                         return (
                             <div key={i} className={`bubble ${isUser ? "bubble--user" : "bubble--assistant"}`}>
-                                <span className="bubble-text">{part.text}</span>
+                                {isUser ? (
+                                    <span className="bubble-text">{part.text}</span>
+                                ) : (
+                                    <Markdown text={part.text} renderText={renderText} />
+                                )}
                             </div>
                         );
                     }
 
-                    const tp = part as unknown as ToolPart;
+                    if (part.type === "data-step-limit") {
+                        const { reason, limit } = part.data as StepLimitNotice;
+                        return (
+                            <div key={i} className="step-limit-notice" role="status">
+                                {reason === "steps"
+                                    ? `Step limit reached: Sage used all ${limit} steps for this answer, so it stopped calling tools and answered with what it had.`
+                                    : `Tool limit reached: Sage made ${limit} tool calls for this answer, so it answered with what it had.`}
+                            </div>
+                        );
+                    }
 
-                    if (tp.type === "tool" && tp.state === "approval-required") {
+                    if (part.type === "data-error") {
+                        const turnError = part.data as TurnError;
+                        return (
+                            <TurnErrorCard
+                                key={i}
+                                error={turnError}
+                                busy={busy}
+                                onRetry={turnError.retryable ? actions.onRegenerate : undefined}
+                            />
+                        );
+                    }
+
+                    if (!isToolUIPart(part)) return null;
+                    const tp = { ...part, toolName: getToolName(part) } as unknown as ToolPart;
+
+                    if (tp.state === "approval-requested" && tp.approval) {
+                        const approvalId = tp.approval.id;
                         return (
                             <ApprovalCard
                                 key={tp.toolCallId}
                                 part={tp}
                                 onApprove={() =>
-                                    addToolApprovalResponse({ id: tp.toolCallId, approved: true })
+                                    addToolApprovalResponse({ id: approvalId, approved: true })
                                 }
                                 onReject={() =>
-                                    addToolApprovalResponse({ id: tp.toolCallId, approved: false })
+                                    addToolApprovalResponse({ id: approvalId, approved: false })
                                 }
                             />
                         );
                     }
 
-                    if (tp.type === "tool") {
-                        return <ToolCard key={tp.toolCallId} part={tp} />;
-                    }
-
-                    return null;
+                    return <ToolCard key={tp.toolCallId} part={tp} />;
                 })}
+                <SourceChips sources={sources} />
+                {(msg.metadata as SageMessageMetadata | undefined)?.interrupted && (
+                    <span className="interrupted-badge">Stopped by you</span>
+                )}
+                {!editing && (
+                    <div className="message-actions">
+                        {branch && <BranchSwitcher branch={branch} disabled={busy} onSwitch={actions.onSwitchBranch} />}
+                        {isUser && actions.onEdit && (
+                            <button
+                                className="message-action"
+                                disabled={busy}
+                                onClick={() => { setDraft(text); setEditing(true); }}
+                                title="Edit and resend"
+                            >
+                                ✎ Edit
+                            </button>
+                        )}
+                        {actions.onRegenerate && (
+                            <button className="message-action" disabled={busy} onClick={actions.onRegenerate} title="Answer again">
+                                ↻ Regenerate
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
+
+function formatReminderTime(iso: string) {
+    return new Date(iso).toLocaleString(undefined, { weekday: "short", hour: "2-digit", minute: "2-digit", month: "short", day: "numeric" });
+}
+
+function RemindersPanel({ reminders, onCancel }: { reminders: Reminder[]; onCancel: (id: string) => void }) {
+    if (reminders.length === 0) {
+        return <p className="reminders-empty">No upcoming reminders.</p>;
+    }
+
+    return (
+        <ul className="reminders-list">
+            {reminders.map((r) => (
+                <li key={r.id} className="reminder-item">
+                    <div className="reminder-body">
+                        <span className="reminder-message">{r.message}</span>
+                        <span className="reminder-meta">
+                            {formatReminderTime(r.nextRunAt)}
+                            {r.cron && <span className="reminder-recurring" title={r.cron}> • repeats</span>}
+                        </span>
+                    </div>
+                    <button className="reminder-cancel" onClick={() => onCancel(r.id)} title="Cancel reminder" aria-label="Cancel reminder">
+                        ✕
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+type DocumentScope = "conversation" | "workspace";
+
+/** Documents of one scope, with the calls that change them on the owning agent. */
+type DocumentLibrary = {
+    documents: DocumentInfo[];
+    upload: (name: string, kind: DocumentKind, text: string) => Promise<unknown>;
+    remove: (id: string) => Promise<unknown>;
+};
+
+/** `.md` files are indexed as Markdown; `*.pdf.txt` is the usual name for text extracted from a PDF. */
+function documentKind(fileName: string): DocumentKind {
+    const name = fileName.toLowerCase();
+    if (name.endsWith(".md") || name.endsWith(".markdown")) return "markdown";
+    if (name.endsWith(".pdf.txt")) return "pdf";
+    return "text";
+}
+
+function DocumentsPanel({ libraries }: { libraries: Record<DocumentScope, DocumentLibrary> }) {
+    const [scope, setScope] = useState<DocumentScope>("conversation");
+    const [uploading, setUploading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+    const entries = (["conversation", "workspace"] as const).flatMap((s) =>
+        libraries[s].documents.map((document) => ({ document, scope: s }))
+    );
+
+    async function handleFiles(files: FileList | null) {
+        if (!files?.length) return;
+        setUploading(true);
+        setError(null);
+        try {
+            for (const file of Array.from(files)) {
+                await libraries[scope].upload(file.name, documentKind(file.name), await file.text());
+            }
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        } finally {
+            setUploading(false);
+            if (fileRef.current) fileRef.current.value = "";
+        }
+    }
+
+    return (
+        <div className="documents-panel">
+            {entries.length === 0 ? (
+                <p className="reminders-empty">No documents yet.</p>
+            ) : (
+                <ul className="documents-list">
+                    {entries.map(({ document, scope: s }) => (
+                        <li key={document.id} className="document-item">
+                            <span className="document-name" title={document.name}>📄 {document.name}</span>
+                            <span className="document-meta">
+                                {document.chunks} {document.chunks === 1 ? "chunk" : "chunks"}
+                                {s === "workspace" && <span className="document-scope-tag"> • workspace</span>}
+                            </span>
+                            <button
+                                className="reminder-cancel"
+                                onClick={() => {
+                                    if (window.confirm(`Remove "${document.name}"?`)) {
+                                        libraries[s].remove(document.id).catch((err: Error) => setError(err.message));
+                                    }
+                                }}
+                                title="Remove document"
+                                aria-label="Remove document"
+                            >
+                                ✕
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+            <div className="document-upload">
+                <select
+                    className="document-scope"
+                    value={scope}
+                    onChange={(e) => setScope(e.target.value as DocumentScope)}
+                    aria-label="Upload to"
+                >
+                    <option value="conversation">This conversation</option>
+                    <option value="workspace">Workspace</option>
+                </select>
+                <button className="document-upload-btn" disabled={uploading} onClick={() => fileRef.current?.click()}>
+                    {uploading ? "Indexing…" : "Upload"}
+                </button>
+                <input
+                    ref={fileRef}
+                    type="file"
+                    hidden
+                    multiple
+                    accept=".txt,.md,.markdown,text/plain,text/markdown"
+                    onChange={(e) => handleFiles(e.target.files)}
+                />
+            </div>
+            {error && <p className="document-error">{error}</p>}
+        </div>
+    );
+}
+
+/** What Sage remembers about the user, kept by their `ThreadIndexAgent`. */
+type MemoryLibrary = {
+    memories: MemoryInfo[];
+    forget: (id: string) => Promise<unknown>;
+    forgetAll: () => Promise<unknown>;
+};
+
+/** The user's custom personas, kept by their `ThreadIndexAgent`. */
+type PersonaLibrary = {
+    personas: Persona[];
+    save: (persona: PersonaDraft) => Promise<unknown>;
+    remove: (id: string) => Promise<unknown>;
+};
+
+/** A persona being edited; an empty `id` creates a new one. */
+type PersonaDraft = Omit<Persona, "builtIn">;
+
+const BLANK_PERSONA: PersonaDraft = {
+    id: "",
+    name: "",
+    description: "",
+    template: "You are Sage AI.\nCurrent Date: {{date}}.\n\n{{memory}}\n\n{{reminders}}",
+    tools: Object.keys(TOOLS),
+    temperature: 0.6,
+    maxTokens: 1024,
+    maxSteps: DEFAULT_MAX_STEPS,
+    toolBudget: DEFAULT_TOOL_BUDGET,
+};
+
+function PersonaEditor({ persona, onSave, onCancel }: { persona: PersonaDraft; onSave: (p: PersonaDraft) => Promise<unknown>; onCancel: () => void }) {
+    const [draft, setDraft] = useState(persona);
+    const [error, setError] = useState<string | null>(null);
+    const update = (changes: Partial<PersonaDraft>) => setDraft({ ...draft, ...changes });
+
+    async function save() {
+        try {
+            await onSave(draft);
+            onCancel();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    return (
+        <div className="persona-editor">
+            <label className="persona-field">
+                <span>Name</span>
+                <input value={draft.name} maxLength={60} onChange={(e) => update({ name: e.target.value })} />
+            </label>
+            <label className="persona-field">
+                <span>Description</span>
+                <input value={draft.description} maxLength={200} onChange={(e) => update({ description: e.target.value })} />
+            </label>
+            <label className="persona-field">
+                <span>System prompt</span>
+                <textarea rows={8} value={draft.template} onChange={(e) => update({ template: e.target.value })} />
+            </label>
+            <p className="settings-hint">
+                Variables: {PERSONA_VARIABLES.map((v) => `{{${v}}}`).join(", ")}. Citation instructions are added when a search tool is enabled.
+            </p>
+            <fieldset className="persona-tools">
+                <legend>Tools</legend>
+                {Object.entries(TOOLS).map(([name, tool]) => (
+                    <label key={name} className="persona-tool">
+                        <input
+                            type="checkbox"
+                            checked={draft.tools.includes(name)}
+                            onChange={(e) => update({
+                                tools: e.target.checked ? [...draft.tools, name] : draft.tools.filter((t) => t !== name),
+                            })}
+                        />
+                        {tool.ui.label}
+                    </label>
+                ))}
+            </fieldset>
+            <div className="persona-numbers">
+                <label className="persona-field">
+                    <span>Temperature</span>
+                    <input type="number" min={0} max={2} step={0.1} value={draft.temperature} onChange={(e) => update({ temperature: Number(e.target.value) })} />
+                </label>
+                <label className="persona-field">
+                    <span>Max tokens</span>
+                    <input type="number" min={64} max={4096} step={64} value={draft.maxTokens} onChange={(e) => update({ maxTokens: Number(e.target.value) })} />
+                </label>
+                <label className="persona-field" title="Model passes per answer; the last one answers without tools">
+                    <span>Max steps</span>
+                    <input
+                        type="number"
+                        min={2}
+                        max={MAX_STEPS_LIMIT}
+                        value={draft.maxSteps ?? DEFAULT_MAX_STEPS}
+                        onChange={(e) => update({ maxSteps: Number(e.target.value) })}
+                    />
+                </label>
+                <label className="persona-field" title="Tool calls per answer">
+                    <span>Tool budget</span>
+                    <input
+                        type="number"
+                        min={1}
+                        max={TOOL_BUDGET_LIMIT}
+                        value={draft.toolBudget ?? DEFAULT_TOOL_BUDGET}
+                        onChange={(e) => update({ toolBudget: Number(e.target.value) })}
+                    />
+                </label>
+            </div>
+            {error && <p className="document-error">{error}</p>}
+            <div className="message-edit-buttons">
+                <button className="message-edit-btn" onClick={onCancel}>Cancel</button>
+                <button className="message-edit-btn message-edit-btn--primary" onClick={save}>Save persona</button>
+            </div>
+        </div>
+    );
+}
+
+function PersonaSettings({ library }: { library: PersonaLibrary }) {
+    const [editing, setEditing] = useState<PersonaDraft | null>(null);
+
+    if (editing) {
+        return <PersonaEditor persona={editing} onSave={library.save} onCancel={() => setEditing(null)} />;
+    }
+
+    return (
+        <>
+            <ul className="memory-list">
+                {[...BUILT_IN_PERSONAS, ...library.personas].map((p) => (
+                    <li key={p.id} className="reminder-item">
+                        <div className="reminder-body">
+                            <span className="reminder-message">{p.name}</span>
+                            <span className="reminder-meta">{p.builtIn ? "Built-in" : "Custom"}{p.description && ` • ${p.description}`}</span>
+                        </div>
+                        <button
+                            className="thread-action"
+                            onClick={() => setEditing({ ...p, id: "", name: `${p.name} (copy)` })}
+                            title="Duplicate"
+                            aria-label={`Duplicate ${p.name}`}
+                        >
+                            ⧉
+                        </button>
+                        {!p.builtIn && (
+                            <>
+                                <button className="thread-action" onClick={() => setEditing(p)} title="Edit" aria-label={`Edit ${p.name}`}>
+                                    ✎
+                                </button>
+                                <button
+                                    className="thread-action thread-action--danger"
+                                    onClick={() => {
+                                        if (window.confirm(`Delete the persona "${p.name}"?`)) library.remove(p.id);
+                                    }}
+                                    title="Delete"
+                                    aria-label={`Delete ${p.name}`}
+                                >
+                                    ✕
+                                </button>
+                            </>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            <button className="clear-btn settings-btn" onClick={() => setEditing(BLANK_PERSONA)}>
+                + New persona
+            </button>
+        </>
+    );
+}
+
+/** The user's live share links, kept by their `ThreadIndexAgent`. */
+type ShareLibrary = {
+    shares: ShareInfo[];
+    revoke: (id: string) => Promise<unknown>;
+};
+
+function SharedLinks({ library }: { library: ShareLibrary }) {
+    const shares = library.shares.filter((s) => Date.parse(s.expiresAt) > Date.now());
+    if (shares.length === 0) return <p className="reminders-empty">No shared links.</p>;
+
+    return (
+        <ul className="memory-list">
+            {shares.map((s) => (
+                <li key={s.id} className="reminder-item">
+                    <div className="reminder-body">
+                        <a className="reminder-message" href={shareUrl(s)} target="_blank" rel="noopener noreferrer">{s.title}</a>
+                        <span className="reminder-meta">Expires {formatReminderTime(s.expiresAt)}</span>
+                    </div>
+                    <button className="thread-action" onClick={() => navigator.clipboard.writeText(shareUrl(s))} title="Copy link" aria-label={`Copy link to ${s.title}`}>
+                        ⧉
+                    </button>
+                    <button
+                        className="thread-action thread-action--danger"
+                        onClick={() => library.revoke(s.id)}
+                        title="Revoke link"
+                        aria-label={`Revoke link to ${s.title}`}
+                    >
+                        ✕
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+}
+
+/** Where fired reminders are sent, and what happened to the recent ones; kept by the user's `ThreadIndexAgent`. */
+type DeliveryLibrary = {
+    channels: DeliveryChannel[];
+    log: DeliveryLogEntry[];
+    save: (input: DeliveryChannelInput) => Promise<{ channel: DeliveryChannel; secret?: string }>;
+    remove: (id: string) => Promise<unknown>;
+    test: (id: string) => Promise<unknown>;
+    confirm: (id: string, code: string) => Promise<unknown>;
+    resend: (id: string) => Promise<unknown>;
+};
+
+const BLANK_CHANNEL: DeliveryChannelInput = { id: "", kind: "webhook", name: "", target: "", enabled: true };
+
+const DELIVERY_STATUS_LABELS: Record<DeliveryLogEntry["status"], string> = {
+    pending: "Retrying",
+    delivered: "Delivered",
+    failed: "Failed",
+};
+
+function DeliverySettings({ library }: { library: DeliveryLibrary }) {
+    const [draft, setDraft] = useState<DeliveryChannelInput | null>(null);
+    const [secret, setSecret] = useState<{ name: string; value: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [testing, setTesting] = useState<Record<string, string>>({});
+    const [codes, setCodes] = useState<Record<string, string>>({});
+
+    async function run(action: () => Promise<unknown>) {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    async function add(input: DeliveryChannelInput) {
+        await run(async () => {
+            const saved = await library.save(input);
+            if (saved.secret) setSecret({ name: saved.channel.name, value: saved.secret });
+            setDraft(null);
+        });
+    }
+
+    async function test(channel: DeliveryChannel) {
+        setTesting({ ...testing, [channel.id]: "Sending…" });
+        try {
+            await library.test(channel.id);
+            setTesting((t) => ({ ...t, [channel.id]: "Test sent" }));
+        } catch (err) {
+            setTesting((t) => ({ ...t, [channel.id]: err instanceof Error ? err.message : String(err) }));
+        }
+    }
+
+    return (
+        <>
+            <ul className="memory-list">
+                {library.channels.map((c) => (
+                    <li key={c.id} className="reminder-item">
+                        <label className="settings-toggle" title={c.enabled ? "Turn off" : "Turn on"}>
+                            <input
+                                type="checkbox"
+                                checked={c.enabled}
+                                disabled={!c.confirmed}
+                                onChange={(e) => run(() => library.save({ ...c, enabled: e.target.checked }))}
+                                aria-label={`Deliver reminders to ${c.name}`}
+                            />
+                        </label>
+                        <div className="reminder-body">
+                            <span className="reminder-message">{c.name}</span>
+                            <span className="reminder-meta">
+                                {c.kind === "in-app" ? "Toasts in this app" : c.target}
+                                {testing[c.id] && ` • ${testing[c.id]}`}
+                            </span>
+                            {!c.confirmed && (
+                                <form
+                                    className="delivery-confirm"
+                                    onSubmit={(e) => {
+                                        e.preventDefault();
+                                        run(() => library.confirm(c.id, codes[c.id] ?? ""));
+                                    }}
+                                >
+                                    <input
+                                        inputMode="numeric"
+                                        maxLength={6}
+                                        placeholder="Code from the email"
+                                        value={codes[c.id] ?? ""}
+                                        onChange={(e) => setCodes({ ...codes, [c.id]: e.target.value })}
+                                        aria-label={`Confirmation code for ${c.name}`}
+                                    />
+                                    <button className="message-edit-btn message-edit-btn--primary" type="submit">Confirm</button>
+                                    <button className="message-edit-btn" type="button" onClick={() => run(() => library.resend(c.id))}>
+                                        Resend
+                                    </button>
+                                </form>
+                            )}
+                        </div>
+                        {c.kind !== "in-app" && (
+                            <>
+                                <button
+                                    className="thread-action"
+                                    onClick={() => test(c)}
+                                    disabled={!c.confirmed}
+                                    title="Send a test reminder"
+                                    aria-label={`Test ${c.name}`}
+                                >
+                                    ↗
+                                </button>
+                                <button
+                                    className="thread-action thread-action--danger"
+                                    onClick={() => {
+                                        if (window.confirm(`Stop sending reminders to "${c.name}"?`)) run(() => library.remove(c.id));
+                                    }}
+                                    title="Delete"
+                                    aria-label={`Delete ${c.name}`}
+                                >
+                                    ✕
+                                </button>
+                            </>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            {secret && (
+                <div className="delivery-secret">
+                    <p className="settings-hint">
+                        Signing secret for {secret.name}. Copy it now: it is not shown again. Each request carries an X-Sage-Signature header to verify it with.
+                    </p>
+                    <code>{secret.value}</code>
+                    <div className="message-edit-buttons">
+                        <button className="message-edit-btn" onClick={() => navigator.clipboard.writeText(secret.value)}>Copy</button>
+                        <button className="message-edit-btn" onClick={() => setSecret(null)}>Done</button>
+                    </div>
+                </div>
+            )}
+            {draft ? (
+                <div className="persona-editor">
+                    <div className="persona-numbers">
+                        <label className="persona-field">
+                            <span>Type</span>
+                            <select value={draft.kind} onChange={(e) => setDraft({ ...draft, kind: e.target.value as DeliveryChannelInput["kind"] })}>
+                                <option value="webhook">Webhook</option>
+                                <option value="email">Email</option>
+                            </select>
+                        </label>
+                        <label className="persona-field">
+                            <span>Name</span>
+                            <input value={draft.name} maxLength={60} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                        </label>
+                    </div>
+                    <label className="persona-field">
+                        <span>{draft.kind === "webhook" ? "URL" : "Email address"}</span>
+                        <input
+                            type={draft.kind === "webhook" ? "url" : "email"}
+                            placeholder={draft.kind === "webhook" ? "https://hooks.slack.com/services/…" : "you@example.com"}
+                            value={draft.target}
+                            onChange={(e) => setDraft({ ...draft, target: e.target.value })}
+                        />
+                    </label>
+                    {draft.kind === "email" && (
+                        <p className="settings-hint">We email this address a code. Reminders go to it once you enter the code here.</p>
+                    )}
+                    {error && <p className="document-error">{error}</p>}
+                    <div className="message-edit-buttons">
+                        <button className="message-edit-btn" onClick={() => setDraft(null)}>Cancel</button>
+                        <button className="message-edit-btn message-edit-btn--primary" onClick={() => add(draft)}>Add channel</button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    {error && <p className="document-error">{error}</p>}
+                    <button className="clear-btn settings-btn" onClick={() => setDraft(BLANK_CHANNEL)}>
+                        + Add webhook or email
+                    </button>
+                </>
+            )}
+            {library.log.length > 0 && (
+                <ul className="memory-list delivery-log">
+                    {library.log.map((e) => (
+                        <li key={e.id} className="reminder-item">
+                            <div className="reminder-body">
+                                <span className="reminder-message">{e.message}</span>
+                                <span className="reminder-meta">
+                                    {e.channelName} • {formatRelativeTime(e.createdAt)}
+                                    {e.attempts > 1 && ` • ${e.attempts} attempts`}
+                                    {e.error && e.status !== "delivered" && ` • ${e.error}`}
+                                </span>
+                            </div>
+                            <span className={`delivery-status delivery-status--${e.status}`}>{DELIVERY_STATUS_LABELS[e.status]}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </>
+    );
+}
+
+function SettingsPanel({
+    memory,
+    personas,
+    shares,
+    deliveries,
+    debug,
+    onDebugChange,
+    onClose,
+}: {
+    memory: MemoryLibrary;
+    personas: PersonaLibrary;
+    shares: ShareLibrary;
+    deliveries: DeliveryLibrary;
+    debug: boolean;
+    onDebugChange: (on: boolean) => void;
+    onClose: () => void;
+}) {
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [onClose]);
+
+    return (
+        <div className="settings-overlay" onClick={onClose}>
+            <div className="settings-panel" role="dialog" aria-modal="true" aria-labelledby="settings-title" onClick={(e) => e.stopPropagation()}>
+                <div className="settings-header">
+                    <h2 id="settings-title">Settings</h2>
+                    <button className="settings-close" onClick={onClose} aria-label="Close settings">✕</button>
+                </div>
+                <section className="settings-section">
+                    <h3 className="sidebar-section-label">Personas</h3>
+                    <p className="settings-hint">
+                        A persona sets Sage's instructions, the tools it may use and how creative its answers are. Pick one per conversation in the sidebar.
+                    </p>
+                    <PersonaSettings library={personas} />
+                </section>
+                <section className="settings-section">
+                    <h3 className="sidebar-section-label">Shared links</h3>
+                    <p className="settings-hint">
+                        Each link shows a read-only copy of a conversation as it was when you shared it. Revoking a link takes it down at once.
+                    </p>
+                    <SharedLinks library={shares} />
+                </section>
+                <section className="settings-section">
+                    <h3 className="sidebar-section-label">Reminder delivery</h3>
+                    <p className="settings-hint">
+                        Where reminders go when they fire. Webhooks get Slack-compatible JSON; failed deliveries are retried for a few minutes.
+                    </p>
+                    <DeliverySettings library={deliveries} />
+                </section>
+                <section className="settings-section">
+                    <h3 className="sidebar-section-label">Memory</h3>
+                    <p className="settings-hint">
+                        Facts Sage has remembered about you. Every conversation shares them, and the relevant ones are added to Sage's instructions.
+                    </p>
+                    {memory.memories.length === 0 ? (
+                        <p className="reminders-empty">Sage has not remembered anything about you yet.</p>
+                    ) : (
+                        <ul className="memory-list">
+                            {memory.memories.map((m) => (
+                                <li key={m.id} className="reminder-item">
+                                    <div className="reminder-body">
+                                        <span className="reminder-message">{m.fact}</span>
+                                        <span className="reminder-meta">{formatRelativeTime(m.updatedAt)}</span>
+                                    </div>
+                                    <button className="reminder-cancel" onClick={() => memory.forget(m.id)} title="Forget" aria-label="Forget this fact">
+                                        ✕
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {memory.memories.length > 0 && (
+                        <button
+                            className="clear-btn"
+                            onClick={() => {
+                                if (window.confirm("Forget everything Sage has remembered about you?")) memory.forgetAll();
+                            }}
+                        >
+                            <TrashIcon />
+                            Forget everything
+                        </button>
+                    )}
+                </section>
+                <section className="settings-section">
+                    <h3 className="sidebar-section-label">Developer</h3>
+                    <label className="settings-toggle">
+                        <input type="checkbox" checked={debug} onChange={(e) => onDebugChange(e.target.checked)} />
+                        Show turn traces
+                    </label>
+                    <p className="settings-hint">
+                        Adds a Traces button above the conversation: every model pass and tool call of recent turns, with timings and token counts.
+                    </p>
+                </section>
+            </div>
+        </div>
+    );
+}
+
+function ReminderToasts({ reminders, onDismiss }: { reminders: FiredReminder[]; onDismiss: (id: string) => void }) {
+    if (reminders.length === 0) return null;
+
+    return (
+        <div className="toast-stack" role="status" aria-live="polite">
+            {reminders.map((r) => (
+                <div key={r.id} className="toast">
+                    <span className="toast-icon">⏰</span>
+                    <div className="toast-body">
+                        <span className="toast-title">Reminder</span>
+                        <span className="toast-message">{r.message}</span>
+                        <span className="toast-meta">{formatReminderTime(r.firedAt)}</span>
+                    </div>
+                    <button className="toast-dismiss" onClick={() => onDismiss(r.id)} aria-label="Dismiss reminder">
+                        ✕
+                    </button>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function formatRelativeTime(iso: string) {
+    const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000);
+    if (minutes < 1) return "just now";
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h ago`;
+    return new Date(iso).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+type ThreadActions = {
+    onSelect: (id: string) => void;
+    onRename: (id: string, title: string) => void;
+    onArchive: (id: string, archived: boolean) => void;
+    onDelete: (id: string) => void;
+};
+
+function ThreadItem({ thread, active, actions }: { thread: Thread; active: boolean; actions: ThreadActions }) {
+    const [editing, setEditing] = useState(false);
+    const [title, setTitle] = useState(thread.title);
+
+    function commitRename() {
+        setEditing(false);
+        const next = title.trim();
+        if (next && next !== thread.title) actions.onRename(thread.id, next);
+        else setTitle(thread.title);
+    }
+
+    return (
+        <li className={`thread-item ${active ? "thread-item--active" : ""}`}>
+            {editing ? (
+                <input
+                    className="thread-rename"
+                    value={title}
+                    autoFocus
+                    maxLength={80}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") { setTitle(thread.title); setEditing(false); }
+                    }}
+                    aria-label="Thread title"
+                />
+            ) : (
+                <button className="thread-body" onClick={() => actions.onSelect(thread.id)} onDoubleClick={() => setEditing(true)}>
+                    <span className="thread-title">{thread.title}</span>
+                    <span className="thread-meta">{formatRelativeTime(thread.lastActivityAt)}</span>
+                </button>
+            )}
+            <div className="thread-actions">
+                <button className="thread-action" onClick={() => { setTitle(thread.title); setEditing(true); }} title="Rename" aria-label="Rename thread">
+                    ✎
+                </button>
+                <button
+                    className="thread-action"
+                    onClick={() => actions.onArchive(thread.id, !thread.archived)}
+                    title={thread.archived ? "Restore" : "Archive"}
+                    aria-label={thread.archived ? "Restore thread" : "Archive thread"}
+                >
+                    {thread.archived ? "↩" : "⌫"}
+                </button>
+                <button
+                    className="thread-action thread-action--danger"
+                    onClick={() => {
+                        if (window.confirm(`Delete "${thread.title}"? This cannot be undone.`)) actions.onDelete(thread.id);
+                    }}
+                    title="Delete"
+                    aria-label="Delete thread"
+                >
+                    ✕
+                </button>
+            </div>
+        </li>
+    );
+}
+
+function ThreadList({
+    threads,
+    activeId,
+    onCreate,
+    onImport,
+    ...actions
+}: { threads: Thread[]; activeId: string | null; onCreate: () => void; onImport: (json: string) => Promise<unknown> } & ThreadActions) {
+    const [showArchived, setShowArchived] = useState(false);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileRef = useRef<HTMLInputElement>(null);
+    const open = threads.filter((t) => !t.archived);
+    const archived = threads.filter((t) => t.archived);
+
+    async function handleImport(file: File | undefined) {
+        if (!file) return;
+        setImportError(null);
+        try {
+            const json = await file.text();
+            if (json.length > MAX_IMPORT_CHARS) throw new Error(`"${file.name}" is too large to import.`);
+            await onImport(json);
+        } catch (err) {
+            setImportError(err instanceof Error ? err.message : String(err));
+        } finally {
+            if (fileRef.current) fileRef.current.value = "";
+        }
+    }
+
+    return (
+        <div className="thread-list">
+            <div className="thread-list-actions">
+                <button className="new-thread-btn" onClick={onCreate}>+ New conversation</button>
+                <button className="new-thread-btn import-thread-btn" onClick={() => fileRef.current?.click()} title="Import a conversation exported as JSON">
+                    Import
+                </button>
+                <input
+                    ref={fileRef}
+                    type="file"
+                    accept=".json,application/json"
+                    hidden
+                    onChange={(e) => handleImport(e.target.files?.[0])}
+                />
+            </div>
+            {importError && <p className="document-error">{importError}</p>}
+            <ul className="thread-items">
+                {open.map((t) => (
+                    <ThreadItem key={t.id} thread={t} active={t.id === activeId} actions={actions} />
+                ))}
+            </ul>
+            {archived.length > 0 && (
+                <button className="thread-archive-toggle" onClick={() => setShowArchived(!showArchived)}>
+                    {showArchived ? "Hide" : "Show"} archived ({archived.length})
+                </button>
+            )}
+            {showArchived && (
+                <ul className="thread-items thread-items--archived">
+                    {archived.map((t) => (
+                        <ThreadItem key={t.id} thread={t} active={t.id === activeId} actions={actions} />
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+function downloadFile({ fileName, mimeType, content }: ExportFile) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function shareUrl(share: ShareInfo) {
+    return new URL(share.path, window.location.origin).href;
+}
+
+/** Export and share actions for the open conversation, plus the trace viewer in debug mode. */
+function ConversationToolbar({
+    disabled,
+    onExport,
+    onShare,
+    onShowTraces,
+}: {
+    disabled: boolean;
+    onExport: (format: ExportFormat) => Promise<ExportFile>;
+    onShare: (ttlDays: number) => Promise<ShareInfo>;
+    onShowTraces?: () => void;
+}) {
+    const [shareOpen, setShareOpen] = useState(false);
+    const [ttlDays, setTtlDays] = useState(DEFAULT_SHARE_TTL_DAYS);
+    const [link, setLink] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    async function run(action: () => Promise<void>) {
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    return (
+        <div className="conversation-toolbar">
+            <div className="conversation-toolbar-buttons">
+                <button className="message-action" disabled={disabled} onClick={() => run(async () => downloadFile(await onExport("markdown")))} title="Download as a Markdown transcript">
+                    ⤓ Markdown
+                </button>
+                <button className="message-action" disabled={disabled} onClick={() => run(async () => downloadFile(await onExport("json")))} title="Download as JSON that can be imported again">
+                    ⤓ JSON
+                </button>
+                <button className="message-action" disabled={disabled} onClick={() => { setShareOpen(!shareOpen); setLink(null); }} title="Create a read-only link">
+                    🔗 Share
+                </button>
+                {onShowTraces && (
+                    <button className="message-action" onClick={onShowTraces} title="Show how recent turns ran">
+                        ⏱ Traces
+                    </button>
+                )}
+            </div>
+            {shareOpen && (
+                <div className="share-panel">
+                    {link ? (
+                        <>
+                            <input className="share-link" value={link} readOnly onFocus={(e) => e.target.select()} aria-label="Share link" />
+                            <button className="message-edit-btn message-edit-btn--primary" onClick={() => run(() => navigator.clipboard.writeText(link))}>
+                                Copy
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <span className="settings-hint">Anyone with the link can read a snapshot of this conversation.</span>
+                            <select className="document-scope" value={ttlDays} onChange={(e) => setTtlDays(Number(e.target.value))} aria-label="Link expires after">
+                                {SHARE_TTL_DAYS.map((days) => (
+                                    <option key={days} value={days}>Expires in {days} {days === 1 ? "day" : "days"}</option>
+                                ))}
+                            </select>
+                            <button
+                                className="message-edit-btn message-edit-btn--primary"
+                                onClick={() => run(async () => setLink(shareUrl(await onShare(ttlDays))))}
+                            >
+                                Create link
+                            </button>
+                        </>
+                    )}
+                </div>
+            )}
+            {error && <p className="document-error">{error}</p>}
+        </div>
+    );
+}
+
+function formatMs(ms: number | null) {
+    if (ms === null) return "–";
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+const TRACE_OUTCOME_LABELS: Record<ToolCallTrace["outcome"], string> = {
+    "ok": "ok",
+    "error": "error",
+    "invalid": "invalid arguments",
+    "awaiting-approval": "awaiting approval",
+    "awaiting-client": "awaiting browser",
+    "rejected": "rejected",
+    "timeout": "timed out",
+    "skipped": "over budget",
+    "interrupted": "interrupted",
+};
+
+const TRACE_STATUS_BADGES: Record<TurnTrace["status"], string> = {
+    running: "warning",
+    completed: "success",
+    paused: "warning",
+    interrupted: "warning",
+    error: "error",
+};
+
+function TraceTurn({ trace }: { trace: TurnTrace }) {
+    const tokens = trace.passes.reduce((sum, p) => sum + p.promptTokens + p.completionTokens, 0);
+    const estimated = trace.passes.some((p) => p.estimatedTokens);
+    // A failed model and the fallback that answered instead share a pass.
+    const passes = new Set(trace.passes.map((p) => p.pass)).size;
+
+    return (
+        <details className="trace-turn">
+            <summary>
+                <span className={`tool-badge ${TRACE_STATUS_BADGES[trace.status]}`}>{trace.status}</span>
+                <span className="trace-summary-text">
+                    {formatRelativeTime(trace.startedAt)} · {trace.trigger === "resume" ? "resumed · " : ""}
+                    {passes} {passes === 1 ? "pass" : "passes"} · {trace.toolCalls.length} tools
+                </span>
+                <span className="trace-summary-meta">{formatMs(trace.durationMs)} · {estimated ? "~" : ""}{tokens} tokens</span>
+            </summary>
+            {trace.error && <p className="document-error">{trace.error}</p>}
+            <table className="trace-table">
+                <thead>
+                    <tr><th>Pass</th><th>Model</th><th>Latency</th><th>First token</th><th>Prompt</th><th>Completion</th></tr>
+                </thead>
+                <tbody>
+                    {trace.passes.map((p) => (
+                        <tr key={`${p.pass}-${p.modelId}`} title={p.error ?? undefined}>
+                            <td>{p.pass}</td>
+                            <td>{p.modelId.split("/").pop()}{p.failed ? " (failed)" : p.error ? " (fallback)" : ""}</td>
+                            <td>{formatMs(p.latencyMs)}</td>
+                            <td>{formatMs(p.firstTokenMs)}</td>
+                            <td>{p.estimatedTokens ? "~" : ""}{p.promptTokens}</td>
+                            <td>{p.estimatedTokens ? "~" : ""}{p.completionTokens}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {trace.toolCalls.length > 0 && (
+                <ul className="trace-tools">
+                    {trace.toolCalls.map((c) => (
+                        <li key={c.toolCallId} className="trace-tool">
+                            <div className="trace-tool-header">
+                                <span className="tool-label">{c.toolName}</span>
+                                <span className={`tool-badge ${c.outcome === "ok" ? "success" : c.outcome.startsWith("awaiting") ? "warning" : "error"}`}>
+                                    {TRACE_OUTCOME_LABELS[c.outcome]}
+                                </span>
+                                <span className="trace-summary-meta">pass {c.pass} · {formatMs(c.durationMs)}</span>
+                            </div>
+                            <pre className="tool-output">{c.arguments}</pre>
+                            {c.error && <p className="document-error">{c.error}</p>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </details>
+    );
+}
+
+/** Debug view of the conversation's recent turns, as recorded by the agent. */
+function TraceViewer({ load, onClose }: { load: () => Promise<{ traces: TurnTrace[]; stats: TraceStats }>; onClose: () => void }) {
+    const [report, setReport] = useState<{ traces: TurnTrace[]; stats: TraceStats } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    async function refresh() {
+        setError(null);
+        try {
+            setReport(await load());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    }
+
+    useEffect(() => {
+        refresh();
+        const onKeyDown = (e: KeyboardEvent) => { if (e.key === "Escape") onClose(); };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, []);
+
+    return (
+        <div className="settings-overlay" onClick={onClose}>
+            <div className="settings-panel trace-panel" role="dialog" aria-modal="true" aria-labelledby="traces-title" onClick={(e) => e.stopPropagation()}>
+                <div className="settings-header">
+                    <h2 id="traces-title">Traces</h2>
+                    <div className="trace-header-actions">
+                        <button className="message-action" onClick={refresh}>↻ Refresh</button>
+                        <button className="settings-close" onClick={onClose} aria-label="Close traces">✕</button>
+                    </div>
+                </div>
+                {error && <p className="document-error">{error}</p>}
+                {!report ? (
+                    !error && <p className="reminders-empty">Loading…</p>
+                ) : report.traces.length === 0 ? (
+                    <p className="reminders-empty">No turns recorded yet.</p>
+                ) : (
+                    <>
+                        <section className="settings-section">
+                            <h3 className="sidebar-section-label">Totals · {report.stats.turns} turns, {report.stats.failedTurns} failed</h3>
+                            <table className="trace-table">
+                                <thead>
+                                    <tr><th>Model</th><th>Passes</th><th>Fallbacks</th><th>Avg latency</th><th>Prompt</th><th>Completion</th></tr>
+                                </thead>
+                                <tbody>
+                                    {report.stats.models.map((m) => (
+                                        <tr key={m.model}>
+                                            <td>{m.model.split("/").pop()}</td>
+                                            <td>{m.passes}</td>
+                                            <td>{m.failures}</td>
+                                            <td>{formatMs(m.avgLatencyMs)}</td>
+                                            <td>{m.promptTokens}</td>
+                                            <td>{m.completionTokens}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {report.stats.tools.length > 0 && (
+                                <table className="trace-table">
+                                    <thead>
+                                        <tr><th>Tool</th><th>Calls</th><th>Errors</th><th>Avg</th><th>Max</th></tr>
+                                    </thead>
+                                    <tbody>
+                                        {report.stats.tools.map((t) => (
+                                            <tr key={t.tool}>
+                                                <td>{t.tool}</td>
+                                                <td>{t.calls}</td>
+                                                <td>{t.errors}</td>
+                                                <td>{formatMs(t.avgMs)}</td>
+                                                <td>{formatMs(t.maxMs)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            )}
+                        </section>
+                        <section className="settings-section">
+                            <h3 className="sidebar-section-label">Recent turns</h3>
+                            {report.traces.map((t) => <TraceTurn key={t.id} trace={t} />)}
+                        </section>
+                    </>
+                )}
             </div>
         </div>
     );
 }
 
+/** The agent refuses rate-limited or overlapping messages with a JSON body in the chat error. */
+function parseRefusal(error: Error | undefined): ChatRequestRefusal | null {
+    if (!error) return null;
+    try {
+        const body = JSON.parse(error.message) as Partial<ChatRequestRefusal>;
+        return body.status === 429 && typeof body.retryAfterSeconds === "number" ? body as ChatRequestRefusal : null;
+    } catch {
+        return null;
+    }
+}
+
+/** Whole seconds left until `until` (epoch ms), ticking once a second. */
+function useCountdown(until: number | null) {
+    const [now, setNow] = useState(Date.now());
+
+    useEffect(() => {
+        if (!until) return;
+        setNow(Date.now());
+        const timer = setInterval(() => {
+            setNow(Date.now());
+            if (Date.now() >= until) clearInterval(timer);
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [until]);
+
+    return until ? Math.max(0, Math.ceil((until - now) / 1000)) : 0;
+}
+
+const DEBUG_MODE_KEY = "sage-debug";
+
+/** The Developer toggle in Settings, remembered in this browser. */
+function useDebugMode(): [boolean, (on: boolean) => void] {
+    const [debug, setDebug] = useState(() => localStorage.getItem(DEBUG_MODE_KEY) === "1");
+    const update = (on: boolean) => {
+        if (on) localStorage.setItem(DEBUG_MODE_KEY, "1");
+        else localStorage.removeItem(DEBUG_MODE_KEY);
+        setDebug(on);
+    };
+    return [debug, update];
+}
+
+/** Shows a browser notification for every fired reminder this tab has not seen yet. */
+function useReminderNotifications(reminders: FiredReminder[]) {
+    const seen = useRef(new Set<string>());
+
+    useEffect(() => {
+        for (const r of reminders) {
+            if (seen.current.has(r.id)) continue;
+            seen.current.add(r.id);
+            if ("Notification" in window && Notification.permission === "granted") {
+                new Notification("Sage reminder", { body: r.message, tag: r.id });
+            }
+        }
+    }, [reminders]);
+}
+
 function TypingIndicator() {
     return (
         <div className="message-row message-row--assistant">
@@ -184,11 +1545,31 @@ function TypingIndicator() {
     );
 }
 
-function Chat() {
-    const agent = useAgent({ agent: "ChatAgent" });
+function Chat({
+    threadId,
+    threadList,
+    workspace,
+    memory,
+    personas,
+    shares,
+    deliveries,
+}: {
+    threadId: string;
+    threadList: React.ReactNode;
+    workspace: DocumentLibrary;
+    memory: MemoryLibrary;
+    personas: PersonaLibrary;
+    shares: ShareLibrary;
+    deliveries: DeliveryLibrary;
+}) {
+    const [agentState, setAgentState] = useState<SageState>({});
+    const agent = useAgent<SageState>({ agent: "ChatAgent", name: threadId, onStateUpdate: setAgentState });
     const bottomRef = useRef<HTMLDivElement>(null);
     const inputRef = useRef<HTMLInputElement>(null);
     const [inputValue, setInputValue] = useState("");
+    const [settingsOpen, setSettingsOpen] = useState(false);
+    const [debug, setDebug] = useDebugMode();
+    const [tracesOpen, setTracesOpen] = useState(false);
 
     const {
         messages,
@@ -196,8 +1577,13 @@ function Chat() {
         clearHistory,
         addToolApprovalResponse,
         status,
+        error,
+        clearError,
+        setMessages,
+        stop,
     } = useAgentChat({
         agent,
+        body: () => ({ locale: navigator.language }),
         onToolCall: async ({ toolCall, addToolOutput }) => {
             if (toolCall.toolName === "getUserInfo") {
                 addToolOutput({
@@ -214,15 +1600,67 @@ function Chat() {
     });
 
     const isStreaming = status === "streaming";
+    // Turns the agent resumes or regenerates by itself reach this client as broadcasts, not as a request it can cancel.
+    const serverTurn = agentState.serverTurn === true;
+    const canStop = status === "submitted" || status === "streaming" || serverTurn;
+    const [refusal, setRefusal] = useState<{ message: string; retryAt: number } | null>(null);
+    const retryIn = useCountdown(refusal?.retryAt ?? null);
+    const isBlocked = isStreaming || retryIn > 0;
+    const firedReminders = agentState.firedReminders ?? [];
+    const branches = agentState.branches ?? {};
+    const conversationDocuments: DocumentLibrary = {
+        documents: agentState.documents ?? [],
+        upload: (name, kind, text) => agent.call("uploadDocument", [name, kind, text]),
+        remove: (id) => agent.call("deleteDocument", [id]),
+    };
+    const lastAssistantId = messages.findLast((m) => m.role === "assistant")?.id;
+    const model = resolveModel(agentState.modelId);
+    const personaOptions = [...BUILT_IN_PERSONAS, ...personas.personas];
+    const personaId = personaOptions.some((p) => p.id === agentState.personaId) ? agentState.personaId! : DEFAULT_PERSONA_ID;
+    useReminderNotifications(firedReminders);
 
     useEffect(() => {
         bottomRef.current?.scrollIntoView({ behavior: "smooth" });
     }, [messages]);
 
+    // A refused message never reached the agent: take it back out of the list and
+    // return its text to the input so it can be resent once the countdown ends.
+    useEffect(() => {
+        const refused = parseRefusal(error);
+        if (!refused) return;
+        setRefusal({ message: refused.message, retryAt: Date.now() + refused.retryAfterSeconds * 1000 });
+        const last = messages[messages.length - 1];
+        if (last?.role === "user") {
+            setMessages(messages.slice(0, -1));
+            setInputValue(last.parts.map((p) => (p.type === "text" ? p.text : "")).join(""));
+        }
+        clearError();
+    }, [error]);
+
+    /** Regenerate and edit are refused like chat requests, so refusals share the rate-limit banner. */
+    function runBranchAction(method: "regenerate" | "editMessage" | "switchBranch", args: string[]) {
+        agent.call<ChatRequestRefusal | null>(method, args).then(
+            (refused) => {
+                if (refused) setRefusal({ message: refused.message, retryAt: Date.now() + refused.retryAfterSeconds * 1000 });
+            },
+            (err: Error) => console.error(`[Sage] ${method} failed:`, err)
+        );
+    }
+
+    function handleStop() {
+        if (!serverTurn) return stop();
+        agent.call("stopTurn").catch((err: Error) => console.error("[Sage] stopTurn failed:", err));
+    }
+
     function handleSend(e: React.FormEvent) {
         e.preventDefault();
         const text = inputValue.trim();
-        if (!text || isStreaming) return;
+        if (!text || isBlocked) return;
+
+        // Ask on a user gesture; browsers ignore permission prompts that are not.
+        if ("Notification" in window && Notification.permission === "default") {
+            Notification.requestPermission();
+        }
 
         sendMessage({ text });
         setInputValue("");
@@ -245,25 +1683,65 @@ function Chat() {
                 </div>
                 <p className="sidebar-tagline">Enterprise Workspace Assistant</p>
                 <div className="sidebar-divider" />
+                <p className="sidebar-section-label">Conversations</p>
+                {threadList}
+                <div className="sidebar-divider" />
+                <p className="sidebar-section-label">Documents</p>
+                <DocumentsPanel libraries={{ conversation: conversationDocuments, workspace }} />
+                <div className="sidebar-divider" />
                 <p className="sidebar-section-label">Try asking</p>
                 <div className="suggested-prompts">
                     {suggestedPrompts.map((p) => (
                         <button
                             key={p}
                             className="suggested-prompt"
-                            disabled={isStreaming}
+                            disabled={isBlocked}
                             onClick={() => sendMessage({ text: p })}
                         >
                             {p}
                         </button>
                     ))}
                 </div>
+                <div className="sidebar-divider" />
+                <p className="sidebar-section-label">Upcoming reminders</p>
+                <RemindersPanel
+                    reminders={agentState.upcomingReminders ?? []}
+                    onCancel={(id) => agent.call("cancelReminder", [id])}
+                />
                 <div className="sidebar-spacer" />
                 <div className="sidebar-footer">
-                    <div className="model-badge">
+                    <label className="model-badge" title={personaOptions.find((p) => p.id === personaId)?.description}>
+                        <span className="persona-glyph">✧</span>
+                        <select
+                            className="model-select"
+                            value={personaId}
+                            disabled={isStreaming}
+                            onChange={(e) => agent.call("setPersona", [e.target.value])}
+                            aria-label="Persona"
+                        >
+                            {personaOptions.map((p) => (
+                                <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="model-badge" title={`${model.contextTokens.toLocaleString()} token context${model.supportsTools ? "" : " • no tool calling"}`}>
                         <span className="model-dot" />
-                        Llama 3.1 8B • Production
-                    </div>
+                        <select
+                            className="model-select"
+                            value={model.id}
+                            disabled={isStreaming}
+                            onChange={(e) => agent.call("setModel", [e.target.value])}
+                            aria-label="Model"
+                        >
+                            {MODELS.map((m) => (
+                                <option key={m.id} value={m.id}>{m.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <button className="clear-btn settings-btn" onClick={() => setSettingsOpen(true)} title="Settings">
+                        <GearIcon />
+                        Settings
+                    </button>
                     <button className="clear-btn" onClick={clearHistory} title="Clear history">
                         <TrashIcon />
                         Clear history
@@ -272,6 +1750,18 @@ function Chat() {
             </aside>
 
             <main className="main">
+                <ReminderToasts
+                    reminders={firedReminders}
+                    onDismiss={(id) => agent.call("acknowledgeReminder", [id])}
+                />
+                {messages.length > 0 && (
+                    <ConversationToolbar
+                        disabled={canStop}
+                        onExport={(format) => agent.call<ExportFile>("exportConversation", [format])}
+                        onShare={(ttlDays) => agent.call<ShareInfo>("shareConversation", [ttlDays])}
+                        onShowTraces={debug ? () => setTracesOpen(true) : undefined}
+                    />
+                )}
                 <div className="messages-area">
                     {messages.length === 0 ? (
                         <div className="empty-state">
@@ -284,6 +1774,17 @@ function Chat() {
                             <MessageBubble
                                 key={msg.id}
                                 msg={msg}
+                                branch={branches[msg.id]}
+                                busy={canStop || retryIn > 0}
+                                actions={{
+                                    onRegenerate: msg.id === lastAssistantId
+                                        ? () => runBranchAction("regenerate", [msg.id])
+                                        : undefined,
+                                    onEdit: msg.role === "user"
+                                        ? (text) => runBranchAction("editMessage", [msg.id, text])
+                                        : undefined,
+                                    onSwitchBranch: (id) => runBranchAction("switchBranch", [id]),
+                                }}
                                 addToolApprovalResponse={addToolApprovalResponse}
                             />
                         ))
@@ -292,30 +1793,227 @@ function Chat() {
                     <div ref={bottomRef} />
                 </div>
 
+                {retryIn > 0 && refusal && (
+                    <div className="rate-limit-banner" role="status" aria-live="polite">
+                        <span>{refusal.message}</span>
+                        <span className="rate-limit-countdown">Try again in {retryIn}s</span>
+                    </div>
+                )}
+
                 <form className="input-bar" onSubmit={handleSend}>
                     <input
                         ref={inputRef}
                         className="input-field"
                         type="text"
                         value={inputValue}
+                        maxLength={MAX_MESSAGE_CHARS}
                         onChange={(e) => setInputValue(e.target.value)}
                         placeholder="Ask Sage anything…"
-                        disabled={isStreaming}
                         autoComplete="off"
                     />
-                    <button
-                        className={`send-btn ${isStreaming ? "send-btn--disabled" : ""}`}
-                        type="submit"
-                        disabled={isStreaming || !inputValue.trim()}
-                        aria-label="Send message"
-                    >
-                        <SendIcon />
-                    </button>
+                    {canStop ? (
+                        <button className="send-btn stop-btn" type="button" onClick={handleStop} aria-label="Stop generating" title="Stop generating">
+                            <StopIcon />
+                        </button>
+                    ) : (
+                        <button
+                            className={`send-btn ${isBlocked ? "send-btn--disabled" : ""}`}
+                            type="submit"
+                            disabled={isBlocked || !inputValue.trim()}
+                            aria-label="Send message"
+                        >
+                            <SendIcon />
+                        </button>
+                    )}
                 </form>
             </main>
+            {settingsOpen && (
+                <SettingsPanel
+                    memory={memory}
+                    personas={personas}
+                    shares={shares}
+                    deliveries={deliveries}
+                    debug={debug}
+                    onDebugChange={setDebug}
+                    onClose={() => setSettingsOpen(false)}
+                />
+            )}
+            {debug && tracesOpen && (
+                <TraceViewer
+                    load={() => agent.call<{ traces: TurnTrace[]; stats: TraceStats }>("getTraces", [20])}
+                    onClose={() => setTracesOpen(false)}
+                />
+            )}
         </div>
     );
 }
 
+const DEV_USER_ID_KEY = "sage-user-id";
+const ACTIVE_THREAD_KEY = "sage-active-thread";
+
+type Session =
+    | { status: "loading" }
+    | { status: "signed-in"; userId: string }
+    | { status: "signed-out"; error: string };
+
+/** Anonymous per-browser user ID, used to sign in when the Worker runs in dev auth mode. */
+function getDevUserId() {
+    let id = localStorage.getItem(DEV_USER_ID_KEY);
+    if (!id) {
+        id = crypto.randomUUID();
+        localStorage.setItem(DEV_USER_ID_KEY, id);
+    }
+    return id;
+}
+
+/**
+ * Resolves the signed-in user from the session cookie. When the Worker runs in dev
+ * auth mode and there is no session yet, signs in with the browser's anonymous ID.
+ */
+function useSession(): Session {
+    const [session, setSession] = useState<Session>({ status: "loading" });
+
+    useEffect(() => {
+        (async () => {
+            let res = await fetch("/auth/session");
+            if (res.status === 401) {
+                const { devLogin } = (await res.clone().json().catch(() => ({}))) as { devLogin?: boolean };
+                if (devLogin) {
+                    await fetch("/auth/dev-login", {
+                        method: "POST",
+                        headers: { "Content-Type": "application/json" },
+                        body: JSON.stringify({ userId: getDevUserId() }),
+                    });
+                    res = await fetch("/auth/session");
+                }
+            }
+            const body = (await res.json().catch(() => ({}))) as { userId?: string; error?: string };
+            setSession(res.ok && body.userId
+                ? { status: "signed-in", userId: body.userId }
+                : { status: "signed-out", error: body.error ?? "Authentication required." });
+        })().catch(() => setSession({ status: "signed-out", error: "Could not reach the server." }));
+    }, []);
+
+    return session;
+}
+
+function SignedOut({ error }: { error: string }) {
+    return (
+        <div className="app app--centered">
+            <div className="empty-state">
+                <div className="empty-icon">✧</div>
+                <h2>Sign in required</h2>
+                <p>{error}</p>
+            </div>
+        </div>
+    );
+}
+
+function App({ userId }: { userId: string }) {
+    const [indexState, setIndexState] = useState<ThreadIndexState | null>(null);
+    const index = useAgent<ThreadIndexState>({ agent: "ThreadIndexAgent", name: userId, onStateUpdate: setIndexState });
+    const [activeId, setActiveId] = useState<string | null>(() => localStorage.getItem(ACTIVE_THREAD_KEY));
+    const creating = useRef(false);
+    const threads = indexState?.threads ?? [];
+
+    async function createThread() {
+        if (creating.current) return;
+        creating.current = true;
+        try {
+            const thread = await index.call<Thread>("createThread");
+            setActiveId(thread.id);
+        } finally {
+            creating.current = false;
+        }
+    }
+
+    useEffect(() => {
+        if (activeId) localStorage.setItem(ACTIVE_THREAD_KEY, activeId);
+    }, [activeId]);
+
+    // Once the index has loaded, fall back to the latest open thread (or a new one)
+    // when the remembered thread no longer exists.
+    useEffect(() => {
+        if (!indexState) return;
+        if (activeId && threads.some((t) => t.id === activeId)) return;
+        const next = threads.find((t) => !t.archived);
+        if (next) setActiveId(next.id);
+        else createThread();
+    }, [indexState, activeId]);
+
+    const threadList = (
+        <ThreadList
+            threads={threads}
+            activeId={activeId}
+            onCreate={createThread}
+            onImport={async (json) => {
+                const thread = await index.call<Thread>("importThread", [json]);
+                setActiveId(thread.id);
+            }}
+            onSelect={setActiveId}
+            onRename={(id, title) => index.call("renameThread", [id, title])}
+            onArchive={(id, archived) => {
+                index.call("archiveThread", [id, archived]);
+                if (archived && id === activeId) setActiveId(threads.find((t) => !t.archived && t.id !== id)?.id ?? null);
+            }}
+            onDelete={async (id) => {
+                await index.call("deleteThread", [id]);
+                if (id === activeId) setActiveId(null);
+            }}
+        />
+    );
+
+    if (!activeId || !indexState || !threads.some((t) => t.id === activeId)) {
+        return <div className="app app--loading" />;
+    }
+    const workspace: DocumentLibrary = {
+        documents: indexState.documents ?? [],
+        upload: (name, kind, text) => index.call("uploadDocument", [name, kind, text]),
+        remove: (id) => index.call("deleteDocument", [id]),
+    };
+    const memory: MemoryLibrary = {
+        memories: indexState.memories ?? [],
+        forget: (id) => index.call("forgetMemory", [id]),
+        forgetAll: () => index.call("forgetAllMemories"),
+    };
+    const personas: PersonaLibrary = {
+        personas: indexState.personas ?? [],
+        save: (persona) => index.call("savePersona", [persona]),
+        remove: (id) => index.call("deletePersona", [id]),
+    };
+    const shares: ShareLibrary = {
+        shares: indexState.shares ?? [],
+        revoke: (id) => index.call("revokeShare", [id]),
+    };
+    const deliveries: DeliveryLibrary = {
+        channels: indexState.deliveryChannels ?? [],
+        log: indexState.deliveryLog ?? [],
+        save: (input) => index.call("saveDeliveryChannel", [input]),
+        remove: (id) => index.call("deleteDeliveryChannel", [id]),
+        test: (id) => index.call("testDeliveryChannel", [id]),
+        confirm: (id, code) => index.call("confirmDeliveryChannel", [id, code]),
+        resend: (id) => index.call("resendDeliveryConfirmation", [id]),
+    };
+    return (
+        <Chat
+            key={activeId}
+            threadId={activeId}
+            threadList={threadList}
+            workspace={workspace}
+            memory={memory}
+            personas={personas}
+            shares={shares}
+            deliveries={deliveries}
+        />
+    );
+}
+
+function Root() {
+    const session = useSession();
+    if (session.status === "loading") return <div className="app app--loading" />;
+    if (session.status === "signed-out") return <SignedOut error={session.error} />;
+    return <App userId={session.userId} />;
+}
+
 const root = createRoot(document.getElementById("root")!);
-root.render(<Chat />);
+root.render(<Root />);
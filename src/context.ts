@@ -0,0 +1,70 @@
+import type { UIMessage } from "ai";
+import type { WorkersAIMessage } from "./workers-ai";
+
+/** Room kept free in the prompt for the running summary itself. */
+export const SUMMARY_MAX_TOKENS = 400;
+
+/** Per-message cap applied to the transcript handed to the summariser. */
+const TRANSCRIPT_MESSAGE_CHARS = 2000;
+
+export const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and Sage, a workspace assistant.
+Merge the previous summary with the new transcript into one updated summary.
+Keep facts, decisions, names, numbers, open questions and anything the user asked Sage to remember or do.
+Drop small talk. Write at most 250 words in plain prose, third person, no preamble.`;
+
+function isMessage(value: unknown): value is WorkersAIMessage {
+    return typeof value === "object" && value !== null && typeof (value as WorkersAIMessage).content === "string";
+}
+
+/**
+ * Rough token estimate (~4 characters per token plus per-message overhead). Llama's
+ * tokenizer is not available in the Worker, and the budget only needs to be conservative.
+ */
+export function estimateTokens(value: unknown): number {
+    if (typeof value === "string") return Math.ceil(value.length / 4);
+    if (Array.isArray(value)) {
+        return value.reduce<number>((sum, item: unknown) => {
+            // Tool schemas are sized as JSON; only messages have the per-message overhead.
+            if (!isMessage(item)) return sum + estimateTokens(item);
+            const calls = item.tool_calls ? JSON.stringify(item.tool_calls) : "";
+            return sum + 4 + Math.ceil((item.content.length + calls.length) / 4);
+        }, 0);
+    }
+    return Math.ceil(JSON.stringify(value ?? "").length / 4);
+}
+
+/** Groups messages into turns, each starting at a user message, so tool calls stay with their results. */
+export function splitTurns(messages: UIMessage[]): UIMessage[][] {
+    const turns: UIMessage[][] = [];
+    for (const msg of messages) {
+        if (msg.role === "user" || turns.length === 0) turns.push([msg]);
+        else turns[turns.length - 1].push(msg);
+    }
+    return turns;
+}
+
+/**
+ * Returns the index of the first turn to keep word for word: as many trailing turns
+ * as fit into `budget`, and always at least the latest one.
+ */
+export function firstRecentTurn(turnTokens: number[], budget: number): number {
+    let used = 0;
+    for (let i = turnTokens.length - 1; i >= 0; i--) {
+        used += turnTokens[i];
+        if (used > budget && i < turnTokens.length - 1) return i + 1;
+    }
+    return 0;
+}
+
+/** Renders messages as a plain transcript for the summariser. */
+export function formatTranscript(messages: WorkersAIMessage[]): string {
+    return messages
+        .map((m) => {
+            const calls = m.tool_calls?.map((c) => `[called ${c.function.name}(${c.function.arguments})]`).join(" ") ?? "";
+            const speaker = m.role === "tool" ? `Tool ${m.name ?? ""}`.trim() : m.role === "user" ? "User" : "Sage";
+            const content = `${m.content} ${calls}`.trim().slice(0, TRANSCRIPT_MESSAGE_CHARS);
+            return content ? `${speaker}: ${content}` : "";
+        })
+        .filter(Boolean)
+        .join("\n");
+}
@@ -0,0 +1,500 @@
+import type { Sql } from "./rate-limit";
+import { backoffDelay } from "./retry";
+import type { RetryPolicy } from "./retry";
+import type { DeliveryChannel, DeliveryChannelKind, DeliveryLogEntry, DeliveryStatus } from "./state";
+
+export const IN_APP_CHANNEL_ID = "in-app";
+export const MAX_DELIVERY_CHANNELS = 10;
+/** Log entries published in state for the settings panel; older ones are kept until pruned. */
+export const DELIVERY_LOG_LISTED = 30;
+const MAX_LOG_ENTRIES = 500;
+const MAX_NAME_LENGTH = 60;
+/** Webhook and email deliveries: four attempts, backing off from 30 seconds to at most 10 minutes between them. */
+export const DELIVERY_RETRY_POLICY: RetryPolicy = { attempts: 4, baseDelayMs: 30_000, maxDelayMs: 10 * 60_000, timeoutMs: 10_000 };
+
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Sage-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Sage-Signature";
+
+/** A new email address gets a six-digit code; it expires after an hour or five wrong guesses. */
+const CONFIRMATION_TTL_MS = 60 * 60_000;
+const MAX_CONFIRMATION_GUESSES = 5;
+
+const EMAIL_ADDRESS = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const LOCAL_HOSTS = ["localhost", "127.0.0.1", "[::1]"];
+
+export type DeliveryEnv = {
+    /** `http` or `log`. Email channels fail to deliver while it is unset. */
+    EMAIL_PROVIDER?: string;
+    /** For `http`: the endpoint that takes `{ from, to, subject, text }` as JSON. */
+    EMAIL_API_URL?: string;
+    /** For `http`: sent as a bearer token. */
+    EMAIL_API_KEY?: string;
+    EMAIL_FROM?: string;
+};
+
+/** A fired reminder, as every channel receives it. */
+export type ReminderNotice = {
+    reminderId: string;
+    threadId: string;
+    /** The title of the conversation the reminder was set in, if it still exists. */
+    threadTitle: string | null;
+    message: string;
+    firedAt: string;
+};
+
+/** A channel as saved from the settings panel. An empty `id` creates one; the in-app channel only takes `enabled`. */
+export type DeliveryChannelInput = {
+    id: string;
+    kind: DeliveryChannelKind;
+    name: string;
+    target: string;
+    enabled: boolean;
+};
+
+/** A failed delivery. `retryable` failures (timeouts, 429s and 5xx responses) are attempted again later. */
+export class DeliveryError extends Error {
+    constructor(message: string, readonly retryable: boolean) {
+        super(message);
+        this.name = "DeliveryError";
+    }
+}
+
+type ChannelRow = {
+    id: string;
+    kind: DeliveryChannelKind;
+    name: string;
+    target: string;
+    secret: string | null;
+    enabled: number;
+    confirmed: number;
+    confirmation_code: string | null;
+    confirmation_expires_at: number | null;
+    confirmation_guesses: number;
+    created_at: number;
+};
+
+type LogRow = {
+    id: string;
+    channel_id: string;
+    channel_name: string;
+    kind: DeliveryChannelKind;
+    notice: string;
+    status: DeliveryStatus;
+    attempts: number;
+    error: string | null;
+    created_at: number;
+    next_attempt_at: number | null;
+    delivered_at: number | null;
+};
+
+export function createDeliveryTables(sql: Sql) {
+    sql`create table if not exists sage_delivery_channels (
+        id text primary key,
+        kind text not null,
+        name text not null,
+        target text not null,
+        secret text,
+        enabled integer not null,
+        confirmed integer not null default 1,
+        confirmation_code text,
+        confirmation_expires_at integer,
+        confirmation_guesses integer not null default 0,
+        created_at integer not null
+    )`;
+    sql`create table if not exists sage_delivery_log (
+        id text primary key,
+        channel_id text not null,
+        channel_name text not null,
+        kind text not null,
+        notice text not null,
+        status text not null,
+        attempts integer not null default 0,
+        error text,
+        created_at integer not null,
+        next_attempt_at integer,
+        delivered_at integer
+    )`;
+    sql`create index if not exists sage_delivery_log_created on sage_delivery_log (created_at)`;
+    sql`
+        insert or ignore into sage_delivery_channels (id, kind, name, target, secret, enabled, created_at)
+        values (${IN_APP_CHANNEL_ID}, 'in-app', 'In-app', '', null, 1, ${Date.now()})
+    `;
+}
+
+function toChannel(row: ChannelRow): DeliveryChannel {
+    return {
+        id: row.id,
+        kind: row.kind,
+        name: row.name,
+        target: row.target,
+        enabled: row.enabled === 1,
+        confirmed: row.confirmed === 1,
+        createdAt: new Date(row.created_at).toISOString(),
+    };
+}
+
+function toLogEntry(row: LogRow): DeliveryLogEntry {
+    const notice = JSON.parse(row.notice) as ReminderNotice;
+    const iso = (ms: number | null) => (ms === null ? null : new Date(ms).toISOString());
+    return {
+        id: row.id,
+        channelId: row.channel_id,
+        channelName: row.channel_name,
+        kind: row.kind,
+        reminderId: notice.reminderId,
+        message: notice.message,
+        status: row.status,
+        attempts: row.attempts,
+        error: row.error,
+        createdAt: new Date(row.created_at).toISOString(),
+        nextAttemptAt: iso(row.next_attempt_at),
+        deliveredAt: iso(row.delivered_at),
+    };
+}
+
+/** Webhooks must use HTTPS; plain HTTP is only allowed to this machine, for a local stand-in receiver. */
+function checkWebhookUrl(target: string) {
+    let url: URL;
+    try {
+        url = new URL(target);
+    } catch {
+        throw new Error(`"${target}" is not a valid URL.`);
+    }
+    if (url.protocol === "https:") return;
+    if (url.protocol === "http:" && LOCAL_HOSTS.includes(url.hostname)) return;
+    throw new Error("Webhook URLs must use https:// (http:// is only allowed for localhost).");
+}
+
+function confirmationCode() {
+    const [n] = crypto.getRandomValues(new Uint32Array(1));
+    return String(n % 1_000_000).padStart(6, "0");
+}
+
+function randomSecret() {
+    const bytes = crypto.getRandomValues(new Uint8Array(24));
+    return `whsec_${[...bytes].map((b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/**
+ * A user's reminder delivery channels and the log of what was sent where, kept in their
+ * `ThreadIndexAgent`. Sending itself is up to the caller, which reports each attempt back.
+ */
+export class DeliveryStore {
+    constructor(private sql: Sql) { }
+
+    /** The in-app channel first, then the others in the order they were added. */
+    channels(): DeliveryChannel[] {
+        return this.sql<ChannelRow>`
+            select * from sage_delivery_channels order by (id = ${IN_APP_CHANNEL_ID}) desc, created_at
+        `.map(toChannel);
+    }
+
+    channel(id: string): ChannelRow | undefined {
+        const [row] = this.sql<ChannelRow>`select * from sage_delivery_channels where id = ${id}`;
+        return row;
+    }
+
+    enabledChannels(): ChannelRow[] {
+        return this.sql<ChannelRow>`
+            select * from sage_delivery_channels where enabled = 1 and confirmed = 1 order by created_at
+        `;
+    }
+
+    /** Whether saving `input` starts a confirmation, so a code has to be sent. */
+    confirms(input: DeliveryChannelInput): boolean {
+        const existing = input.id ? this.channel(input.id) : undefined;
+        if (!existing) return !input.id && input.kind === "email";
+        return existing.kind === "email" && input.target.trim() !== existing.target;
+    }
+
+    /**
+     * Creates or updates a channel. A new webhook gets a signing secret, returned only this once.
+     * A new email address, or a changed one, stays off until confirmed: the caller must send it
+     * the returned `confirmationCode`.
+     */
+    save(input: DeliveryChannelInput): { channel: DeliveryChannel; secret?: string; confirmationCode?: string } {
+        const existing = input.id ? this.channel(input.id) : undefined;
+        if (input.id && !existing) throw new Error(`No delivery channel with ID "${input.id}".`);
+
+        if (existing?.kind === "in-app") {
+            this.sql`update sage_delivery_channels set enabled = ${input.enabled ? 1 : 0} where id = ${existing.id}`;
+            return { channel: toChannel(this.channel(existing.id)!) };
+        }
+
+        const kind = existing?.kind ?? input.kind;
+        if (kind !== "webhook" && kind !== "email") throw new Error("Channels are either webhooks or email addresses.");
+        const name = input.name.replace(/\s+/g, " ").trim().slice(0, MAX_NAME_LENGTH);
+        if (!name) throw new Error("Channel name cannot be empty.");
+        const target = input.target.trim();
+        if (kind === "webhook") checkWebhookUrl(target);
+        if (kind === "email" && !EMAIL_ADDRESS.test(target)) throw new Error(`"${target}" is not a valid email address.`);
+
+        if (existing) {
+            if (kind === "email" && target !== existing.target) {
+                this.sql`update sage_delivery_channels set name = ${name}, target = ${target} where id = ${existing.id}`;
+                const confirmationCode = this._startConfirmation(existing.id);
+                return { channel: toChannel(this.channel(existing.id)!), confirmationCode };
+            }
+            if (input.enabled && existing.confirmed !== 1) throw new Error("Confirm this email address before turning the channel on.");
+            this.sql`
+                update sage_delivery_channels set name = ${name}, target = ${target}, enabled = ${input.enabled ? 1 : 0}
+                where id = ${existing.id}
+            `;
+            return { channel: toChannel(this.channel(existing.id)!) };
+        }
+
+        const [{ count }] = this.sql<{ count: number }>`
+            select count(*) as count from sage_delivery_channels where id != ${IN_APP_CHANNEL_ID}
+        `;
+        if (count >= MAX_DELIVERY_CHANNELS) throw new Error(`You can add up to ${MAX_DELIVERY_CHANNELS} channels.`);
+        const id = crypto.randomUUID();
+        const secret = kind === "webhook" ? randomSecret() : null;
+        this.sql`
+            insert into sage_delivery_channels (id, kind, name, target, secret, enabled, created_at)
+            values (${id}, ${kind}, ${name}, ${target}, ${secret}, ${input.enabled ? 1 : 0}, ${Date.now()})
+        `;
+        const confirmationCode = kind === "email" ? this._startConfirmation(id) : undefined;
+        return { channel: toChannel(this.channel(id)!), secret: secret ?? undefined, confirmationCode };
+    }
+
+    /** Replaces an unconfirmed email channel's code, for the caller to send again. */
+    renewConfirmation(id: string): string {
+        const existing = this.channel(id);
+        if (!existing) throw new Error(`No delivery channel with ID "${id}".`);
+        if (existing.confirmed === 1) throw new Error(`"${existing.name}" is already confirmed.`);
+        return this._startConfirmation(id);
+    }
+
+    /** Checks the code sent to an email channel and, if it matches, turns the channel on. */
+    confirm(id: string, code: string, now = Date.now()): DeliveryChannel {
+        const existing = this.channel(id);
+        if (!existing) throw new Error(`No delivery channel with ID "${id}".`);
+        if (existing.confirmed === 1) return toChannel(existing);
+        if (!existing.confirmation_code || (existing.confirmation_expires_at ?? 0) < now) {
+            throw new Error("This confirmation code has expired. Send a new one.");
+        }
+        if (code.trim() !== existing.confirmation_code) {
+            const guesses = existing.confirmation_guesses + 1;
+            if (guesses >= MAX_CONFIRMATION_GUESSES) {
+                this.sql`update sage_delivery_channels set confirmation_code = null, confirmation_guesses = ${guesses} where id = ${id}`;
+                throw new Error("Too many wrong codes. Send a new one.");
+            }
+            this.sql`update sage_delivery_channels set confirmation_guesses = ${guesses} where id = ${id}`;
+            throw new Error("That code is not right.");
+        }
+        this.sql`
+            update sage_delivery_channels set confirmed = 1, enabled = 1, confirmation_code = null,
+                confirmation_expires_at = null, confirmation_guesses = 0
+            where id = ${id}
+        `;
+        return toChannel(this.channel(id)!);
+    }
+
+    /** Turns the channel off until the new code comes back. */
+    private _startConfirmation(id: string): string {
+        const code = confirmationCode();
+        this.sql`
+            update sage_delivery_channels set enabled = 0, confirmed = 0, confirmation_code = ${code},
+                confirmation_expires_at = ${Date.now() + CONFIRMATION_TTL_MS}, confirmation_guesses = 0
+            where id = ${id}
+        `;
+        return code;
+    }
+
+    remove(id: string): boolean {
+        if (id === IN_APP_CHANNEL_ID) throw new Error("The in-app channel can be turned off, but not deleted.");
+        if (!this.channel(id)) return false;
+        this.sql`delete from sage_delivery_channels where id = ${id}`;
+        return true;
+    }
+
+    /** Opens a log entry for sending `notice` to `channel`. */
+    begin(channel: ChannelRow, notice: ReminderNotice): string {
+        const id = crypto.randomUUID();
+        this.sql`
+            insert into sage_delivery_log (id, channel_id, channel_name, kind, notice, status, created_at)
+            values (${id}, ${channel.id}, ${channel.name}, ${channel.kind}, ${JSON.stringify(notice)}, 'pending', ${Date.now()})
+        `;
+        this._prune();
+        return id;
+    }
+
+    /** A log entry still waiting for an attempt, with the notice to send. */
+    pending(id: string): { channelId: string; attempts: number; notice: ReminderNotice } | null {
+        const [row] = this.sql<LogRow>`select * from sage_delivery_log where id = ${id} and status = 'pending'`;
+        return row ? { channelId: row.channel_id, attempts: row.attempts, notice: JSON.parse(row.notice) } : null;
+    }
+
+    /** Records one attempt. A failure with `nextAttemptAt` stays pending; without it, the delivery has failed for good. */
+    recordAttempt(id: string, result: { error?: string; nextAttemptAt?: number }) {
+        const now = Date.now();
+        if (result.error === undefined) {
+            this.sql`
+                update sage_delivery_log set status = 'delivered', attempts = attempts + 1, error = null,
+                    next_attempt_at = null, delivered_at = ${now}
+                where id = ${id}
+            `;
+            return;
+        }
+        const status: DeliveryStatus = result.nextAttemptAt === undefined ? "failed" : "pending";
+        this.sql`
+            update sage_delivery_log set status = ${status}, attempts = attempts + 1, error = ${result.error},
+                next_attempt_at = ${result.nextAttemptAt ?? null}
+            where id = ${id}
+        `;
+    }
+
+    log(limit = DELIVERY_LOG_LISTED): DeliveryLogEntry[] {
+        return this.sql<LogRow>`select * from sage_delivery_log order by created_at desc limit ${limit}`.map(toLogEntry);
+    }
+
+    private _prune() {
+        this.sql`
+            delete from sage_delivery_log where id not in (
+                select id from sage_delivery_log order by created_at desc limit ${MAX_LOG_ENTRIES}
+            )
+        `;
+    }
+}
+
+/** How long to wait before attempt number `attempts + 1`, or null once the retry policy is used up. */
+export function nextDeliveryDelayMs(attempts: number, random = Math.random): number | null {
+    if (attempts >= DELIVERY_RETRY_POLICY.attempts) return null;
+    return Math.max(1000, backoffDelay(attempts - 1, "unavailable", DELIVERY_RETRY_POLICY, random));
+}
+
+function reminderText(notice: ReminderNotice) {
+    return notice.threadTitle
+        ? `⏰ Reminder: ${notice.message} (from "${notice.threadTitle}")`
+        : `⏰ Reminder: ${notice.message}`;
+}
+
+/** Slack-compatible: Slack shows `text`; other receivers can read the structured `reminder`. */
+export function webhookBody(notice: ReminderNotice): string {
+    return JSON.stringify({ text: reminderText(notice), reminder: notice });
+}
+
+/**
+ * `v1=` followed by the hex HMAC-SHA256 of `<timestamp>.<body>` under the channel's secret.
+ * Receivers recompute it, compare, and reject timestamps more than a few minutes old.
+ */
+export async function signWebhook(secret: string, timestamp: number, body: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    const mac = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+    return `v1=${[...new Uint8Array(mac)].map((b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/** POSTs and classifies the outcome; `what` names the receiver in error messages. */
+async function post(fetcher: typeof fetch, url: string, init: RequestInit, what: string) {
+    let res: Response;
+    try {
+        res = await fetcher(url, { ...init, method: "POST", signal: AbortSignal.timeout(DELIVERY_RETRY_POLICY.timeoutMs) });
+    } catch (err) {
+        throw new DeliveryError(`${what} could not be reached: ${err instanceof Error ? err.message : String(err)}`, true);
+    }
+    if (res.ok) return;
+    const detail = (await res.text().catch(() => "")).trim().slice(0, 200);
+    const retryable = res.status === 408 || res.status === 429 || res.status >= 500;
+    throw new DeliveryError(`${what} returned ${res.status}${detail ? `: ${detail}` : ""}`, retryable);
+}
+
+export type Email = {
+    to: string;
+    subject: string;
+    text: string;
+    /** The confirmation code a confirmation email carries. */
+    code?: string;
+};
+
+/** Sends the emails for email channels. Picked by `EMAIL_PROVIDER`. */
+export interface EmailSender {
+    readonly name: string;
+    send(email: Email, channelId: string): Promise<void>;
+}
+
+/** Any transactional email API that accepts `{ from, to, subject, text }` as JSON, with an optional bearer key. */
+export class HttpEmailSender implements EmailSender {
+    readonly name = "http";
+
+    constructor(
+        private options: { url: string; apiKey?: string; from: string },
+        private fetcher: typeof fetch = fetch
+    ) { }
+
+    async send(email: Email) {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (this.options.apiKey) headers.Authorization = `Bearer ${this.options.apiKey}`;
+        const body = JSON.stringify({ from: this.options.from, to: email.to, subject: email.subject, text: email.text });
+        await post(this.fetcher, this.options.url, { headers, body }, "The email API");
+    }
+}
+
+/**
+ * Sends nothing, for local development. It logs which channel an email was for, and the
+ * code of a confirmation email so the channel can be confirmed; never the address or text.
+ */
+export class LogEmailSender implements EmailSender {
+    readonly name = "log";
+
+    async send(email: Email, channelId: string) {
+        const code = email.code ? ` (confirmation code ${email.code})` : "";
+        console.log(`[Sage] Email for channel ${channelId} logged, not sent${code}.`);
+    }
+}
+
+/** Picks the sender named by `EMAIL_PROVIDER`. Misconfiguration throws, so the delivery fails with the reason. */
+export function createEmailSender(env: DeliveryEnv, fetcher: typeof fetch = fetch): EmailSender {
+    switch ((env.EMAIL_PROVIDER ?? "").toLowerCase()) {
+        case "http":
+            if (!env.EMAIL_API_URL) throw new Error("EMAIL_PROVIDER is \"http\" but EMAIL_API_URL is not set.");
+            if (!env.EMAIL_FROM) throw new Error("EMAIL_PROVIDER is \"http\" but EMAIL_FROM is not set.");
+            return new HttpEmailSender({ url: env.EMAIL_API_URL, apiKey: env.EMAIL_API_KEY, from: env.EMAIL_FROM }, fetcher);
+        case "log":
+            return new LogEmailSender();
+        case "":
+            throw new Error("Email delivery is not configured: set EMAIL_PROVIDER.");
+        default:
+            throw new Error(`Unknown EMAIL_PROVIDER "${env.EMAIL_PROVIDER}". Use http or log.`);
+    }
+}
+
+function emailSender(env: DeliveryEnv, fetcher: typeof fetch): EmailSender {
+    try {
+        return createEmailSender(env, fetcher);
+    } catch (err) {
+        throw new DeliveryError(err instanceof Error ? err.message : String(err), false);
+    }
+}
+
+/** Emails an email channel the code that confirms it. Throws `DeliveryError`. */
+export async function sendConfirmation(channel: ChannelRow, code: string, env: DeliveryEnv, fetcher: typeof fetch) {
+    const text = [
+        `Your Sage confirmation code is ${code}.`,
+        `Enter it in Sage's settings to get reminders at this address. It expires in an hour.`,
+        `If you did not add this address to Sage, ignore this email and nothing will be sent to it.`,
+    ].join("\n\n");
+    await emailSender(env, fetcher).send({ to: channel.target, subject: "Confirm your email for Sage reminders", text, code }, channel.id);
+}
+
+/** Sends `notice` to one webhook or email channel. Throws `DeliveryError`. */
+export async function deliver(channel: ChannelRow, notice: ReminderNotice, env: DeliveryEnv, fetcher: typeof fetch) {
+    if (channel.kind === "webhook") {
+        const body = webhookBody(notice);
+        const timestamp = Math.floor(Date.now() / 1000);
+        const headers = {
+            "Content-Type": "application/json",
+            [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+            [WEBHOOK_SIGNATURE_HEADER]: await signWebhook(channel.secret ?? "", timestamp, body),
+        };
+        await post(fetcher, channel.target, { headers, body }, "The webhook");
+        return;
+    }
+    if (channel.kind === "email") {
+        const subject = notice.message.length > 60 ? `Reminder: ${notice.message.slice(0, 57)}...` : `Reminder: ${notice.message}`;
+        const text = `${reminderText(notice)}\n\nFired at ${notice.firedAt}.`;
+        await emailSender(env, fetcher).send({ to: channel.target, subject, text }, channel.id);
+        return;
+    }
+    throw new DeliveryError(`Channel kind "${channel.kind}" is delivered by the thread itself.`, false);
+}
@@ -0,0 +1,281 @@
+import type { Sql } from "./rate-limit";
+import type { SearchResult } from "./search";
+import type { DocumentInfo, DocumentKind } from "./state";
+import { embedTexts } from "./workers-ai";
+
+/** Embedding settings read from the Worker environment. */
+export type DocumentsEnv = {
+    /** `workers-ai` (default) or `stub`, an in-memory embedder for offline development and tests. */
+    EMBEDDING_PROVIDER?: string;
+    /** `workers-ai` only: the embedding model. */
+    EMBEDDING_MODEL?: string;
+};
+
+export interface Embedder {
+    /** Names the vector space; chunks embedded by a different model are never compared. */
+    readonly model: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_EMBEDDING_MODEL = "@cf/baai/bge-base-en-v1.5";
+export const MAX_DOCUMENT_CHARS = 256_000;
+const DOCUMENT_KINDS: DocumentKind[] = ["text", "markdown", "pdf"];
+const EMBEDDING_BATCH_SIZE = 100;
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+const DOCUMENT_URL_PREFIX = "document://";
+
+/** Embeds with a Workers AI embedding model, in batches the model accepts. */
+export class WorkersAIEmbedder implements Embedder {
+    constructor(private ai: Ai, readonly model = DEFAULT_EMBEDDING_MODEL) { }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+            vectors.push(...await embedTexts(this.ai, this.model, texts.slice(i, i + EMBEDDING_BATCH_SIZE)));
+        }
+        return vectors;
+    }
+}
+
+function fnv1a(word: string) {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < word.length; i++) {
+        hash ^= word.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Hashes words into a fixed number of buckets, entirely in memory. There is no model
+ * behind it, but texts that share words still land close together, which is enough
+ * for offline development and tests.
+ */
+export class StubEmbedder implements Embedder {
+    readonly model: string;
+
+    constructor(private dimensions = 256) {
+        this.model = `stub-${dimensions}`;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map((text) => {
+            const vector = new Array<number>(this.dimensions).fill(0);
+            for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+                vector[fnv1a(word) % this.dimensions] += 1;
+            }
+            return vector;
+        });
+    }
+}
+
+/** Picks the embedder named by `EMBEDDING_PROVIDER`. Misconfiguration throws so it is reported, not hidden. */
+export function createEmbedder(ai: Ai, env: DocumentsEnv): Embedder {
+    switch ((env.EMBEDDING_PROVIDER ?? "workers-ai").toLowerCase()) {
+        case "workers-ai":
+            return new WorkersAIEmbedder(ai, env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL);
+        case "stub":
+            return new StubEmbedder();
+        default:
+            throw new Error(`Unknown EMBEDDING_PROVIDER "${env.EMBEDDING_PROVIDER}". Use workers-ai or stub.`);
+    }
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+    let dot = 0, normA = 0, normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export type DocumentChunk = { text: string; heading?: string };
+
+/**
+ * Splits a document into chunks of up to `CHUNK_CHARS`, packing whole paragraphs where
+ * possible. Markdown chunks start at headings and remember the heading they fall under.
+ * Paragraphs longer than a chunk are cut into overlapping windows.
+ */
+export function chunkDocument(text: string, kind: DocumentKind): DocumentChunk[] {
+    const chunks: DocumentChunk[] = [];
+    let heading: string | undefined;
+    let current = "";
+    const flush = () => {
+        if (current) chunks.push({ text: current, heading });
+        current = "";
+    };
+
+    for (const paragraph of text.replace(/\r\n?/g, "\n").split(/\n\s*\n/)) {
+        const trimmed = paragraph.trim();
+        if (!trimmed) continue;
+
+        if (kind === "markdown" && /^#{1,6}\s/.test(trimmed)) {
+            flush();
+            heading = trimmed.split("\n")[0].replace(/^#+\s*/, "").trim();
+        }
+
+        if (trimmed.length > CHUNK_CHARS) {
+            flush();
+            for (let start = 0; start < trimmed.length; start += CHUNK_CHARS - CHUNK_OVERLAP_CHARS) {
+                chunks.push({ text: trimmed.slice(start, start + CHUNK_CHARS), heading });
+                if (start + CHUNK_CHARS >= trimmed.length) break;
+            }
+            continue;
+        }
+
+        if (current && current.length + trimmed.length + 2 > CHUNK_CHARS) flush();
+        current = current ? `${current}\n\n${trimmed}` : trimmed;
+    }
+    flush();
+    return chunks;
+}
+
+/** A chunk returned by similarity search, with its cosine similarity to the query. */
+export type DocumentHit = {
+    documentId: string;
+    name: string;
+    ordinal: number;
+    heading?: string;
+    text: string;
+    score: number;
+};
+
+/**
+ * Turns a hit into a search result so it is numbered and cited like a web source.
+ * Its URL is a `document://` address that only identifies the chunk.
+ */
+export function toCitableResult(hit: DocumentHit): SearchResult {
+    return {
+        title: hit.heading ? `${hit.name} › ${hit.heading}` : `${hit.name} (part ${hit.ordinal + 1})`,
+        url: `${DOCUMENT_URL_PREFIX}${hit.documentId}/${hit.ordinal}`,
+        snippet: hit.text,
+        source: hit.name,
+    };
+}
+
+export function isDocumentUrl(url: string) {
+    return url.startsWith(DOCUMENT_URL_PREFIX);
+}
+
+type DocumentRow = {
+    id: string;
+    name: string;
+    kind: DocumentKind;
+    chars: number;
+    chunk_count: number;
+    created_at: number;
+};
+
+type ChunkRow = {
+    document_id: string;
+    name: string;
+    ordinal: number;
+    heading: string | null;
+    text: string;
+    embedding: string;
+};
+
+export function createDocumentTables(sql: Sql) {
+    sql`create table if not exists sage_documents (
+        id text primary key,
+        name text not null,
+        kind text not null,
+        chars integer not null,
+        chunk_count integer not null,
+        created_at integer not null
+    )`;
+    sql`create table if not exists sage_document_chunks (
+        document_id text not null,
+        ordinal integer not null,
+        heading text,
+        text text not null,
+        embedding text not null,
+        model text not null,
+        primary key (document_id, ordinal)
+    )`;
+}
+
+/**
+ * Uploaded documents and their embedded chunks, kept in the SQLite storage of the agent
+ * that owns them: a `ChatAgent` for one conversation, the `ThreadIndexAgent` for the
+ * user's whole workspace. Vectors are stored as JSON and compared in memory.
+ */
+export class DocumentStore {
+    constructor(private sql: Sql, private embedder: Embedder) { }
+
+    async add(name: string, kind: DocumentKind, text: string): Promise<DocumentInfo> {
+        const cleanName = name.trim().slice(0, 200);
+        if (!cleanName) throw new Error("Document name cannot be empty.");
+        if (!DOCUMENT_KINDS.includes(kind)) throw new Error(`Unknown document kind "${kind}". Use text, markdown or pdf.`);
+        if (!text.trim()) throw new Error(`"${cleanName}" has no text to index.`);
+        if (text.length > MAX_DOCUMENT_CHARS) {
+            throw new Error(`"${cleanName}" is too large: documents are limited to ${MAX_DOCUMENT_CHARS.toLocaleString("en-US")} characters.`);
+        }
+
+        const chunks = chunkDocument(text, kind);
+        // The heading is embedded with the chunk so sections match on their title too.
+        const vectors = await this.embedder.embed(chunks.map((c) => (c.heading ? `${c.heading}\n${c.text}` : c.text)));
+
+        const id = crypto.randomUUID();
+        const now = Date.now();
+        this.sql`
+            insert into sage_documents (id, name, kind, chars, chunk_count, created_at)
+            values (${id}, ${cleanName}, ${kind}, ${text.length}, ${chunks.length}, ${now})
+        `;
+        chunks.forEach((chunk, ordinal) => {
+            this.sql`
+                insert into sage_document_chunks (document_id, ordinal, heading, text, embedding, model)
+                values (${id}, ${ordinal}, ${chunk.heading ?? null}, ${chunk.text}, ${JSON.stringify(vectors[ordinal])}, ${this.embedder.model})
+            `;
+        });
+        return this.list().find((d) => d.id === id)!;
+    }
+
+    remove(id: string): boolean {
+        const [row] = this.sql<DocumentRow>`select * from sage_documents where id = ${id}`;
+        if (!row) return false;
+        this.sql`delete from sage_document_chunks where document_id = ${id}`;
+        this.sql`delete from sage_documents where id = ${id}`;
+        return true;
+    }
+
+    list(): DocumentInfo[] {
+        return this.sql<DocumentRow>`select * from sage_documents order by created_at desc`.map((row) => ({
+            id: row.id,
+            name: row.name,
+            kind: row.kind,
+            chars: row.chars,
+            chunks: row.chunk_count,
+            uploadedAt: new Date(row.created_at).toISOString(),
+        }));
+    }
+
+    /** The `limit` chunks most similar to `query`. Empty when nothing has been uploaded. */
+    async search(query: string, limit: number): Promise<DocumentHit[]> {
+        const [{ count }] = this.sql<{ count: number }>`
+            select count(*) as count from sage_document_chunks where model = ${this.embedder.model}
+        `;
+        if (count === 0) return [];
+
+        const [queryVector] = await this.embedder.embed([query]);
+        const rows = this.sql<ChunkRow>`
+            select c.document_id, d.name, c.ordinal, c.heading, c.text, c.embedding
+            from sage_document_chunks c join sage_documents d on d.id = c.document_id
+            where c.model = ${this.embedder.model}
+        `;
+        return rows
+            .map((row) => ({
+                documentId: row.document_id,
+                name: row.name,
+                ordinal: row.ordinal,
+                heading: row.heading ?? undefined,
+                text: row.text,
+                score: cosineSimilarity(queryVector, JSON.parse(row.embedding) as number[]),
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+}
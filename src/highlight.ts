@@ -0,0 +1,159 @@
+export type TokenType = "plain" | "keyword" | "string" | "comment" | "number";
+export type Token = { type: TokenType; text: string };
+
+type Grammar = {
+    keywords: string[];
+    lineComments?: string[];
+    blockComment?: [string, string];
+    /** Quote characters; backtick strings may span lines, the others end at a newline. */
+    quotes: string[];
+    caseInsensitive?: boolean;
+};
+
+const C_LIKE_KEYWORDS = [
+    "break", "case", "catch", "class", "const", "continue", "default", "do", "else", "enum", "extends",
+    "false", "finally", "for", "if", "import", "interface", "new", "null", "private", "protected", "public",
+    "return", "static", "switch", "this", "throw", "true", "try", "void", "while",
+];
+
+const JS: Grammar = {
+    keywords: [
+        ...C_LIKE_KEYWORDS, "as", "async", "await", "delete", "export", "from", "function", "in", "instanceof",
+        "let", "of", "readonly", "type", "typeof", "undefined", "var", "yield", "implements", "keyof", "declare",
+    ],
+    lineComments: ["//"],
+    blockComment: ["/*", "*/"],
+    quotes: ['"', "'", "`"],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+    js: JS,
+    python: {
+        keywords: [
+            "and", "as", "assert", "async", "await", "break", "class", "continue", "def", "del", "elif", "else",
+            "except", "False", "finally", "for", "from", "global", "if", "import", "in", "is", "lambda", "None",
+            "nonlocal", "not", "or", "pass", "raise", "return", "self", "True", "try", "while", "with", "yield",
+        ],
+        lineComments: ["#"],
+        quotes: ['"', "'"],
+    },
+    shell: {
+        keywords: [
+            "case", "do", "done", "echo", "elif", "else", "esac", "exit", "export", "fi", "for", "function", "if",
+            "in", "local", "return", "set", "then", "unset", "until", "while",
+        ],
+        lineComments: ["#"],
+        quotes: ['"', "'"],
+    },
+    json: { keywords: ["true", "false", "null"], quotes: ['"'] },
+    sql: {
+        keywords: [
+            "add", "alter", "and", "as", "asc", "between", "by", "case", "create", "delete", "desc", "distinct",
+            "drop", "else", "end", "exists", "from", "group", "having", "if", "in", "index", "insert", "into", "is",
+            "join", "key", "left", "like", "limit", "not", "null", "offset", "on", "or", "order", "primary", "right",
+            "select", "set", "table", "then", "union", "update", "values", "when", "where", "with",
+        ],
+        lineComments: ["--"],
+        blockComment: ["/*", "*/"],
+        quotes: ["'", '"'],
+        caseInsensitive: true,
+    },
+    c: {
+        keywords: [
+            ...C_LIKE_KEYWORDS, "auto", "bool", "char", "double", "float", "fn", "func", "go", "impl", "int", "let",
+            "long", "match", "mod", "mut", "package", "pub", "struct", "trait", "unsigned", "use", "var",
+        ],
+        lineComments: ["//"],
+        blockComment: ["/*", "*/"],
+        quotes: ['"', "'", "`"],
+    },
+    css: { keywords: ["important", "inherit", "initial", "none", "auto"], blockComment: ["/*", "*/"], quotes: ['"', "'"] },
+    yaml: { keywords: ["true", "false", "null", "yes", "no"], lineComments: ["#"], quotes: ['"', "'"] },
+};
+
+const ALIASES: Record<string, string> = {
+    javascript: "js", jsx: "js", ts: "js", typescript: "js", tsx: "js", mjs: "js",
+    py: "python",
+    sh: "shell", bash: "shell", zsh: "shell", console: "shell",
+    jsonc: "json",
+    go: "c", rust: "c", rs: "c", java: "c", kotlin: "c", cpp: "c", "c++": "c", cs: "c", csharp: "c", swift: "c",
+    scss: "css",
+    yml: "yaml", toml: "yaml",
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+type CompiledGrammar = { pattern: RegExp; keywords: Set<string>; caseInsensitive: boolean };
+const compiled = new Map<string, CompiledGrammar>();
+
+function compile(name: string): CompiledGrammar {
+    const cached = compiled.get(name);
+    if (cached) return cached;
+
+    const grammar = GRAMMARS[name];
+    const comments = [
+        ...(grammar.lineComments ?? []).map((c) => `${escapeRegExp(c)}[^\\n]*`),
+        ...(grammar.blockComment ? [`${escapeRegExp(grammar.blockComment[0])}[\\s\\S]*?(?:${escapeRegExp(grammar.blockComment[1])}|$)`] : []),
+    ];
+    // A string still being streamed has no closing quote yet; it runs to the end of the line.
+    const strings = grammar.quotes.map((q) =>
+        q === "`" ? "`(?:\\\\[\\s\\S]|[^`\\\\])*`?" : `${q}(?:\\\\.|[^${q}\\\\\\n])*${q}?`
+    );
+    const pattern = new RegExp(
+        [
+            comments.length > 0 ? `(${comments.join("|")})` : "(?!)",
+            `(${strings.join("|")})`,
+            "(\\b(?:0x[\\da-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)\\b)",
+            "([A-Za-z_$][\\w$]*)",
+        ].join("|"),
+        "g"
+    );
+    const result = {
+        pattern,
+        keywords: new Set(grammar.caseInsensitive ? grammar.keywords.map((k) => k.toLowerCase()) : grammar.keywords),
+        caseInsensitive: grammar.caseInsensitive ?? false,
+    };
+    compiled.set(name, result);
+    return result;
+}
+
+/** The grammar for a code fence's language tag, or `undefined` if it is not one we highlight. */
+function grammarName(language: string | undefined): string | undefined {
+    const lang = language?.toLowerCase();
+    if (!lang) return undefined;
+    if (Object.hasOwn(GRAMMARS, lang)) return lang;
+    return ALIASES[lang];
+}
+
+/**
+ * Splits `code` into tokens for colouring. This is a lexer, not a parser: it knows each
+ * language's comments, strings, numbers and keywords, which covers most of what makes
+ * code readable. Unknown languages come back as a single plain token.
+ */
+export function highlight(code: string, language: string | undefined): Token[] {
+    const name = grammarName(language);
+    if (!name) return [{ type: "plain", text: code }];
+
+    const { pattern, keywords, caseInsensitive } = compile(name);
+    const tokens: Token[] = [];
+    const push = (type: TokenType, text: string) => {
+        const last = tokens[tokens.length - 1];
+        if (last?.type === type) last.text += text;
+        else tokens.push({ type, text });
+    };
+
+    let last = 0;
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+        if (match.index > last) push("plain", code.slice(last, match.index));
+        const [text, comment, string, number, word] = match;
+        if (comment !== undefined) push("comment", text);
+        else if (string !== undefined) push("string", text);
+        else if (number !== undefined) push("number", text);
+        else if (word !== undefined && keywords.has(caseInsensitive ? word.toLowerCase() : word)) push("keyword", text);
+        else push("plain", text);
+        last = match.index + text.length;
+    }
+    if (last < code.length) push("plain", code.slice(last));
+    return tokens;
+}
@@ -0,0 +1,416 @@
+import React, { memo, useEffect, useState } from "react";
+import { highlight } from "./highlight";
+
+type Align = "left" | "center" | "right" | null;
+
+type Block =
+    | { type: "paragraph"; raw: string; text: string }
+    | { type: "heading"; raw: string; level: number; text: string }
+    | { type: "code"; raw: string; language?: string; code: string; closed: boolean }
+    | { type: "list"; raw: string; ordered: boolean; start: number; items: Block[][] }
+    | { type: "quote"; raw: string; children: Block[] }
+    | { type: "table"; raw: string; header: string[]; align: Align[]; rows: string[][] }
+    | { type: "rule"; raw: string };
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(\s+|$)/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+function isTableStart(lines: string[], i: number) {
+    return lines[i].includes("|") && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes("-");
+}
+
+/** Whether `line` begins a block other than a paragraph, which ends the paragraph before it. */
+function startsBlock(lines: string[], i: number) {
+    const line = lines[i];
+    return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || isTableStart(lines, i);
+}
+
+function splitRow(line: string): string[] {
+    const cells = line.trim().replace(/^\|/, "").replace(/(?<!\\)\|$/, "").split(/(?<!\\)\|/);
+    return cells.map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+function parseAlign(cell: string): Align {
+    const left = cell.startsWith(":"), right = cell.endsWith(":");
+    return left && right ? "center" : right ? "right" : left ? "left" : null;
+}
+
+/**
+ * Parses the Markdown the models write: paragraphs, ATX headings, fenced code, lists,
+ * blockquotes, GFM tables and rules. Anything else, raw HTML included, stays text.
+ * Half-written input parses too: an unclosed fence is a code block still being streamed.
+ */
+export function parseMarkdown(source: string): Block[] {
+    const lines = source.replace(/\r\n?/g, "\n").split("\n");
+    const blocks: Block[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+        const start = i;
+        const raw = () => lines.slice(start, i).join("\n");
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const marker = fence[1];
+            const closer = new RegExp(`^ {0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}\\s*$`);
+            const body: string[] = [];
+            let closed = false;
+            for (i++; i < lines.length; i++) {
+                if (closer.test(lines[i])) {
+                    closed = true;
+                    i++;
+                    break;
+                }
+                body.push(lines[i]);
+            }
+            blocks.push({ type: "code", raw: raw(), language: fence[2] || undefined, code: body.join("\n"), closed });
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            i++;
+            blocks.push({ type: "heading", raw: raw(), level: heading[1].length, text: heading[2] });
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            i++;
+            blocks.push({ type: "rule", raw: raw() });
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            const body: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(QUOTE, ""));
+            blocks.push({ type: "quote", raw: raw(), children: parseMarkdown(body.join("\n")) });
+            continue;
+        }
+
+        const item = LIST_ITEM.exec(line);
+        if (item) {
+            const indent = item[1].length;
+            const ordered = /\d/.test(item[2]);
+            const items: string[][] = [];
+            let contentIndent = 0;
+            const leading = (l: string) => l.length - l.trimStart().length;
+            while (i < lines.length) {
+                const next = LIST_ITEM.exec(lines[i]);
+                if (next && next[1].length === indent && /\d/.test(next[2]) === ordered) {
+                    items.push([lines[i].slice(next[0].length)]);
+                    contentIndent = next[0].length;
+                    i++;
+                    continue;
+                }
+                // Indented lines, and blank lines followed by one, belong to the current item.
+                if (lines[i].trim() && leading(lines[i]) > indent) {
+                    items[items.length - 1].push(lines[i].slice(Math.min(leading(lines[i]), contentIndent)));
+                    i++;
+                    continue;
+                }
+                const following = lines[i + 1] ?? "";
+                if (!lines[i].trim() && following.trim() && (leading(following) > indent || LIST_ITEM.exec(following)?.[1].length === indent)) {
+                    items[items.length - 1].push("");
+                    i++;
+                    continue;
+                }
+                break;
+            }
+            blocks.push({
+                type: "list",
+                raw: raw(),
+                ordered,
+                start: ordered ? parseInt(item[2], 10) : 1,
+                items: items.map((body) => parseMarkdown(body.join("\n"))),
+            });
+            continue;
+        }
+
+        if (isTableStart(lines, i)) {
+            const header = splitRow(line);
+            const align = splitRow(lines[i + 1]).map(parseAlign);
+            const rows: string[][] = [];
+            for (i += 2; i < lines.length && lines[i].trim() && lines[i].includes("|"); i++) {
+                const cells = splitRow(lines[i]);
+                rows.push(header.map((_, c) => cells[c] ?? ""));
+            }
+            blocks.push({ type: "table", raw: raw(), header, align, rows });
+            continue;
+        }
+
+        const body = [line];
+        for (i++; i < lines.length && lines[i].trim() && !startsBlock(lines, i); i++) body.push(lines[i]);
+        blocks.push({ type: "paragraph", raw: raw(), text: body.map((l) => l.trim()).join("\n") });
+    }
+    return blocks;
+}
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+/** The URL if it is absolute and uses a protocol we are willing to link to. */
+export function safeHref(url: string): string | undefined {
+    try {
+        const parsed = new URL(url.trim());
+        return SAFE_PROTOCOLS.includes(parsed.protocol) ? parsed.href : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/** Renders a run of plain text; lets the caller add things like citation markers. */
+export type TextRenderer = (text: string) => React.ReactNode;
+
+const plainText: TextRenderer = (text) => text;
+
+function ExternalLink({ href, title, children }: { href: string | undefined; title?: string; children: React.ReactNode }) {
+    if (!href) return <>{children}</>;
+    return (
+        <a href={href} title={title} target="_blank" rel="noopener noreferrer nofollow">
+            {children}
+        </a>
+    );
+}
+
+/** Index of the `]` that closes the `[` at `open`, allowing nested brackets. */
+function closingBracket(text: string, open: number) {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === "\\") i++;
+        else if (text[i] === "[") depth++;
+        else if (text[i] === "]" && --depth === 0) return i;
+    }
+    return -1;
+}
+
+/** Index of the `marker` that closes emphasis opened before `from`, or -1 if it is never closed. */
+function closingMarker(text: string, marker: string, from: number) {
+    for (let end = text.indexOf(marker, from); end !== -1; end = text.indexOf(marker, end + 1)) {
+        if (/\s/.test(text[end - 1])) continue;
+        if (marker.length === 1 && (text[end - 1] === marker || text[end + 1] === marker)) continue;
+        if (marker[0] === "_" && /\w/.test(text[end + marker.length] ?? "")) continue;
+        return end;
+    }
+    return -1;
+}
+
+const EMPHASIS: [string, (children: React.ReactNode, key: number) => React.ReactNode][] = [
+    ["**", (c, key) => <strong key={key}>{c}</strong>],
+    ["__", (c, key) => <strong key={key}>{c}</strong>],
+    ["~~", (c, key) => <del key={key}>{c}</del>],
+    ["*", (c, key) => <em key={key}>{c}</em>],
+    ["_", (c, key) => <em key={key}>{c}</em>],
+];
+
+/** Renders inline Markdown: code spans, emphasis, links and line breaks. */
+function renderInline(text: string, renderText: TextRenderer): React.ReactNode[] {
+    const nodes: React.ReactNode[] = [];
+    let buffer = "";
+    const flush = () => {
+        if (buffer) nodes.push(<React.Fragment key={nodes.length}>{renderText(buffer)}</React.Fragment>);
+        buffer = "";
+    };
+
+    let i = 0;
+    outer: while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === "\\" && /[!-/:-@[-`{-~]/.test(text[i + 1] ?? "")) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (ch === "\n") {
+            flush();
+            nodes.push(<br key={nodes.length} />);
+            i++;
+            continue;
+        }
+
+        if (ch === "`") {
+            const ticks = /^`+/.exec(text.slice(i))![0];
+            const end = text.indexOf(ticks, i + ticks.length);
+            if (end !== -1) {
+                flush();
+                const code = text.slice(i + ticks.length, end).replace(/^ (.*) $/, "$1");
+                nodes.push(<code key={nodes.length} className="md-inline-code">{code}</code>);
+                i = end + ticks.length;
+                continue;
+            }
+            buffer += ticks;
+            i += ticks.length;
+            continue;
+        }
+
+        for (const [marker, wrap] of EMPHASIS) {
+            if (!text.startsWith(marker, i)) continue;
+            const inner = i + marker.length;
+            // `snake_case` and `2 * 3` are not emphasis.
+            if ((marker[0] === "_" && /\w/.test(text[i - 1] ?? "")) || !text[inner] || /\s/.test(text[inner])) break;
+            const end = closingMarker(text, marker, inner + 1);
+            if (end === -1) break;
+            flush();
+            nodes.push(wrap(renderInline(text.slice(inner, end), renderText), nodes.length));
+            i = end + marker.length;
+            continue outer;
+        }
+
+        if (ch === "[" || (ch === "!" && text[i + 1] === "[")) {
+            const open = ch === "!" ? i + 1 : i;
+            const close = closingBracket(text, open);
+            const link = close !== -1 ? /^\(\s*<?([^\s()<>]*(?:\([^\s()]*\)[^\s()<>]*)*)>?(?:\s+"([^"]*)")?\s*\)/.exec(text.slice(close + 1)) : null;
+            if (link) {
+                flush();
+                const label = text.slice(open + 1, close);
+                // Images are shown as links so a reply cannot load arbitrary URLs by itself.
+                nodes.push(
+                    <ExternalLink key={nodes.length} href={safeHref(link[1])} title={link[2]}>
+                        {ch === "!" ? `🖼 ${label || link[1]}` : renderInline(label, renderText)}
+                    </ExternalLink>
+                );
+                i = close + 1 + link[0].length;
+                continue;
+            }
+        }
+
+        const url = /^<(https?:\/\/[^\s<>]+)>|^https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]*_~]/.exec(text.slice(i));
+        if (url && !/\w/.test(text[i - 1] ?? "")) {
+            flush();
+            const href = url[1] ?? url[0];
+            nodes.push(<ExternalLink key={nodes.length} href={safeHref(href)}>{href}</ExternalLink>);
+            i += url[0].length;
+            continue;
+        }
+
+        buffer += ch;
+        i++;
+    }
+    flush();
+    return nodes;
+}
+
+function CodeBlock({ language, code, closed }: { language?: string; code: string; closed: boolean }) {
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        if (!copied) return;
+        const timer = setTimeout(() => setCopied(false), 1500);
+        return () => clearTimeout(timer);
+    }, [copied]);
+
+    async function copy() {
+        try {
+            await navigator.clipboard.writeText(code);
+            setCopied(true);
+        } catch (err) {
+            console.error("Copy failed:", err);
+        }
+    }
+
+    return (
+        <div className="md-code">
+            <div className="md-code-header">
+                <span className="md-code-language">{language ?? "text"}</span>
+                <button className="md-code-copy" onClick={copy} disabled={!closed} title={closed ? "Copy code" : "Still writing…"}>
+                    {copied ? "✓ Copied" : "Copy"}
+                </button>
+            </div>
+            <pre>
+                <code>
+                    {highlight(code, language).map((token, i) =>
+                        token.type === "plain" ? token.text : <span key={i} className={`tok-${token.type}`}>{token.text}</span>
+                    )}
+                </code>
+            </pre>
+        </div>
+    );
+}
+
+function BlockView({ block, renderText }: { block: Block; renderText: TextRenderer }): React.ReactElement {
+    switch (block.type) {
+        case "paragraph":
+            return <p>{renderInline(block.text, renderText)}</p>;
+        case "heading": {
+            // Headings sit inside a chat bubble, so `#` starts at <h3>.
+            const Tag = `h${Math.min(block.level + 2, 6)}` as "h3" | "h4" | "h5" | "h6";
+            return <Tag>{renderInline(block.text, renderText)}</Tag>;
+        }
+        case "code":
+            return <CodeBlock language={block.language} code={block.code} closed={block.closed} />;
+        case "rule":
+            return <hr />;
+        case "quote":
+            return <blockquote><Blocks blocks={block.children} renderText={renderText} /></blockquote>;
+        case "list": {
+            const items = block.items.map((children, i) => {
+                // The item's first paragraph renders without a <p> so lists stay tight.
+                const [first, ...rest] = children;
+                return first?.type === "paragraph" ? (
+                    <li key={i}>
+                        {renderInline(first.text, renderText)}
+                        <Blocks blocks={rest} renderText={renderText} />
+                    </li>
+                ) : (
+                    <li key={i}><Blocks blocks={children} renderText={renderText} /></li>
+                );
+            });
+            return block.ordered ? <ol start={block.start}>{items}</ol> : <ul>{items}</ul>;
+        }
+        case "table":
+            return (
+                <div className="md-table-wrap">
+                    <table>
+                        <thead>
+                            <tr>
+                                {block.header.map((cell, c) => (
+                                    <th key={c} style={{ textAlign: block.align[c] ?? undefined }}>{renderInline(cell, renderText)}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {block.rows.map((row, r) => (
+                                <tr key={r}>
+                                    {row.map((cell, c) => (
+                                        <td key={c} style={{ textAlign: block.align[c] ?? undefined }}>{renderInline(cell, renderText)}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+    }
+}
+
+/**
+ * While a reply streams only its last block changes, so a block re-renders only when its
+ * own source text does. That keeps long answers cheap to update and leaves the state of
+ * earlier code blocks, like "Copied", alone.
+ */
+const MemoBlock = memo(BlockView, (prev, next) => prev.block.raw === next.block.raw && prev.renderText === next.renderText);
+
+function Blocks({ blocks, renderText }: { blocks: Block[]; renderText: TextRenderer }) {
+    return <>{blocks.map((block, i) => <MemoBlock key={i} block={block} renderText={renderText} />)}</>;
+}
+
+/**
+ * Renders Markdown as React elements. Nothing is ever injected as HTML, so `<script>` in
+ * a reply is just text, and links are only created for http(s) and mailto URLs.
+ */
+export function Markdown({ text, renderText = plainText }: { text: string; renderText?: TextRenderer }) {
+    return (
+        <div className="markdown">
+            <Blocks blocks={parseMarkdown(text)} renderText={renderText} />
+        </div>
+    );
+}
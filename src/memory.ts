@@ -0,0 +1,121 @@
+import { cosineSimilarity } from "./documents";
+import type { Embedder } from "./documents";
+import type { Sql } from "./rate-limit";
+import type { MemoryInfo } from "./state";
+
+export const MAX_FACT_CHARS = 500;
+export const MAX_MEMORIES = 500;
+/** A new fact this similar to a stored one replaces it instead of being added. */
+const DUPLICATE_SCORE = 0.95;
+
+/** A remembered fact returned by `recall`, with its cosine similarity to the query. */
+export type MemoryHit = MemoryInfo & { score: number };
+
+type MemoryRow = {
+    id: string;
+    fact: string;
+    thread_id: string | null;
+    embedding: string;
+    model: string;
+    created_at: number;
+    updated_at: number;
+};
+
+export function createMemoryTable(sql: Sql) {
+    sql`create table if not exists sage_memories (
+        id text primary key,
+        fact text not null,
+        thread_id text,
+        embedding text not null,
+        model text not null,
+        created_at integer not null,
+        updated_at integer not null
+    )`;
+}
+
+function toMemoryInfo(row: MemoryRow): MemoryInfo {
+    return {
+        id: row.id,
+        fact: row.fact,
+        threadId: row.thread_id,
+        createdAt: new Date(row.created_at).toISOString(),
+        updatedAt: new Date(row.updated_at).toISOString(),
+    };
+}
+
+/**
+ * Facts about one user, kept in their `ThreadIndexAgent` so every thread shares them and
+ * clearing a conversation does not erase them. Each fact is embedded so the ones relevant
+ * to a message can be found.
+ */
+export class MemoryStore {
+    constructor(private sql: Sql, private embedder: Embedder) { }
+
+    /** Stores `fact`, or refreshes a stored fact that says the same thing. */
+    async remember(fact: string, threadId: string | null): Promise<{ memory: MemoryInfo; replaced: boolean }> {
+        const text = fact.replace(/\s+/g, " ").trim();
+        if (!text) throw new Error("Fact cannot be empty.");
+        if (text.length > MAX_FACT_CHARS) throw new Error(`Facts are limited to ${MAX_FACT_CHARS} characters.`);
+
+        const [vector] = await this.embedder.embed([text]);
+        const now = Date.now();
+        const [duplicate] = this._score(vector).filter((hit) => hit.score >= DUPLICATE_SCORE);
+
+        if (duplicate) {
+            this.sql`
+                update sage_memories set fact = ${text}, embedding = ${JSON.stringify(vector)}, updated_at = ${now}
+                where id = ${duplicate.id}
+            `;
+            return { memory: this._get(duplicate.id)!, replaced: true };
+        }
+
+        const [{ count }] = this.sql<{ count: number }>`select count(*) as count from sage_memories`;
+        if (count >= MAX_MEMORIES) {
+            throw new Error(`Memory is full (${MAX_MEMORIES} facts). Ask the user which facts to forget first.`);
+        }
+
+        const id = crypto.randomUUID();
+        this.sql`
+            insert into sage_memories (id, fact, thread_id, embedding, model, created_at, updated_at)
+            values (${id}, ${text}, ${threadId}, ${JSON.stringify(vector)}, ${this.embedder.model}, ${now}, ${now})
+        `;
+        return { memory: this._get(id)!, replaced: false };
+    }
+
+    /** The `limit` facts most similar to `query` that score at least `minScore`. */
+    async recall(query: string, limit: number, minScore = 0): Promise<MemoryHit[]> {
+        const [{ count }] = this.sql<{ count: number }>`
+            select count(*) as count from sage_memories where model = ${this.embedder.model}
+        `;
+        if (count === 0) return [];
+
+        const [vector] = await this.embedder.embed([query]);
+        return this._score(vector).filter((hit) => hit.score >= minScore).slice(0, limit);
+    }
+
+    forget(id: string): boolean {
+        if (!this._get(id)) return false;
+        this.sql`delete from sage_memories where id = ${id}`;
+        return true;
+    }
+
+    forgetAll() {
+        this.sql`delete from sage_memories`;
+    }
+
+    list(): MemoryInfo[] {
+        return this.sql<MemoryRow>`select * from sage_memories order by updated_at desc`.map(toMemoryInfo);
+    }
+
+    private _get(id: string): MemoryInfo | undefined {
+        const [row] = this.sql<MemoryRow>`select * from sage_memories where id = ${id}`;
+        return row ? toMemoryInfo(row) : undefined;
+    }
+
+    /** Every fact embedded by the current model, most similar to `vector` first. */
+    private _score(vector: number[]): MemoryHit[] {
+        return this.sql<MemoryRow>`select * from sage_memories where model = ${this.embedder.model}`
+            .map((row) => ({ ...toMemoryInfo(row), score: cosineSimilarity(vector, JSON.parse(row.embedding) as number[]) }))
+            .sort((a, b) => b.score - a.score);
+    }
+}
@@ -0,0 +1,86 @@
+import type { UIMessage } from "ai";
+import type { Sql } from "./rate-limit";
+import type { MessageBranch } from "./state";
+
+type TreeNode = {
+    id: string;
+    parent_id: string | null;
+    message: string;
+    created_at: number;
+    last_active_at: number;
+};
+
+/**
+ * Every message the conversation has ever held, each linked to the message it follows.
+ * Regenerating or editing adds a sibling instead of overwriting, so the chat history
+ * AIChatAgent persists is just the active path through this tree.
+ */
+export function createMessageTreeTable(sql: Sql) {
+    sql`create table if not exists sage_message_tree (
+        id text primary key,
+        parent_id text,
+        message text not null,
+        created_at integer not null,
+        last_active_at integer not null
+    )`;
+    sql`create index if not exists sage_message_tree_parent on sage_message_tree (parent_id)`;
+}
+
+export function clearMessageTree(sql: Sql) {
+    sql`delete from sage_message_tree`;
+}
+
+/**
+ * Records `path` (the active conversation, oldest first): each message hangs off the one
+ * before it. A message keeps the parent it was first recorded under; its content and
+ * last-active time are refreshed so switching back restores the latest version.
+ */
+export function recordPath(sql: Sql, path: UIMessage[], now = Date.now()) {
+    path.forEach((message, i) => {
+        sql`
+            insert into sage_message_tree (id, parent_id, message, created_at, last_active_at)
+            values (${message.id}, ${path[i - 1]?.id ?? null}, ${JSON.stringify(message)}, ${now}, ${now})
+            on conflict(id) do update set message = excluded.message, last_active_at = excluded.last_active_at
+        `;
+    });
+}
+
+function siblingIds(sql: Sql, parentId: string | null): string[] {
+    return sql<{ id: string }>`
+        select id from sage_message_tree where parent_id is ${parentId} order by created_at, rowid
+    `.map((row) => row.id);
+}
+
+/** The messages on `path` that have alternative versions, keyed by message ID. */
+export function branchPoints(sql: Sql, path: UIMessage[]): Record<string, MessageBranch> {
+    const branches: Record<string, MessageBranch> = {};
+    path.forEach((message, i) => {
+        const ids = siblingIds(sql, path[i - 1]?.id ?? null);
+        if (ids.length > 1) branches[message.id] = { index: ids.indexOf(message.id), siblingIds: ids };
+    });
+    return branches;
+}
+
+/**
+ * The conversation that runs through `messageId`: its ancestors, the message itself and,
+ * below it, the most recently active child at every step. `null` for unknown messages.
+ */
+export function pathThrough(sql: Sql, messageId: string): UIMessage[] | null {
+    const node = (id: string): TreeNode | undefined => sql<TreeNode>`select * from sage_message_tree where id = ${id}`[0];
+
+    const path: TreeNode[] = [];
+    for (let current = node(messageId); current; current = current.parent_id ? node(current.parent_id) : undefined) {
+        path.unshift(current);
+    }
+    if (path.length === 0) return null;
+
+    while (true) {
+        const [child] = sql<TreeNode>`
+            select * from sage_message_tree where parent_id = ${path[path.length - 1].id}
+            order by last_active_at desc limit 1
+        `;
+        if (!child) break;
+        path.push(child);
+    }
+    return path.map((n) => JSON.parse(n.message) as UIMessage);
+}
@@ -0,0 +1,66 @@
+/** A Workers AI text-generation model the user can chat with. */
+export type ModelInfo = {
+    id: string;
+    label: string;
+    /** Prompt plus completion tokens the model accepts. */
+    contextTokens: number;
+    /** Whether the model accepts the `tools` parameter; without it Sage answers from text alone. */
+    supportsTools: boolean;
+    maxOutputTokens: number;
+    /** Model to retry with when this one fails to respond. */
+    fallback?: string;
+};
+
+export const MODELS: ModelInfo[] = [
+    {
+        id: "@cf/meta/llama-3.1-8b-instruct",
+        label: "Llama 3.1 8B",
+        contextTokens: 7968,
+        supportsTools: true,
+        maxOutputTokens: 1024,
+        fallback: "@hf/nousresearch/hermes-2-pro-mistral-7b",
+    },
+    {
+        id: "@cf/meta/llama-3.3-70b-instruct-fp8-fast",
+        label: "Llama 3.3 70B",
+        contextTokens: 24000,
+        supportsTools: true,
+        maxOutputTokens: 2048,
+        fallback: "@cf/meta/llama-3.1-8b-instruct",
+    },
+    {
+        id: "@cf/mistralai/mistral-small-3.1-24b-instruct",
+        label: "Mistral Small 3.1 24B",
+        contextTokens: 128000,
+        supportsTools: true,
+        maxOutputTokens: 2048,
+        fallback: "@cf/meta/llama-3.1-8b-instruct",
+    },
+    {
+        id: "@hf/nousresearch/hermes-2-pro-mistral-7b",
+        label: "Hermes 2 Pro 7B",
+        contextTokens: 24000,
+        supportsTools: true,
+        maxOutputTokens: 1024,
+        fallback: "@cf/meta/llama-3.1-8b-instruct",
+    },
+    {
+        id: "@cf/meta/llama-3.2-3b-instruct",
+        label: "Llama 3.2 3B (no tools)",
+        contextTokens: 128000,
+        supportsTools: false,
+        maxOutputTokens: 1024,
+        fallback: "@cf/meta/llama-3.1-8b-instruct",
+    },
+];
+
+export const DEFAULT_MODEL_ID = "@cf/meta/llama-3.1-8b-instruct";
+
+export function getModel(id: string | undefined): ModelInfo | undefined {
+    return MODELS.find((m) => m.id === id);
+}
+
+/** The conversation's selected model, or the default when none (or an unknown one) is set. */
+export function resolveModel(id: string | undefined): ModelInfo {
+    return getModel(id) ?? getModel(DEFAULT_MODEL_ID)!;
+}
@@ -0,0 +1,165 @@
+import { TOOLS } from "./tools";
+
+/** A system prompt template together with the tools and generation settings that go with it. */
+export type Persona = {
+    id: string;
+    name: string;
+    description: string;
+    /** System prompt; `{{date}}`, `{{locale}}`, `{{reminders}}` and `{{memory}}` are filled in every turn. */
+    template: string;
+    /** Tools the model is offered while this persona is active. */
+    tools: string[];
+    temperature: number;
+    /** Upper bound on generated tokens; the model's own limit still applies. */
+    maxTokens: number;
+    /** Model passes per turn, the last of which must answer without tools. `DEFAULT_MAX_STEPS` when unset. */
+    maxSteps?: number;
+    /** Tool calls the model may make per turn. `DEFAULT_TOOL_BUDGET` when unset. */
+    toolBudget?: number;
+    /** Built-in personas ship with Sage and cannot be edited or deleted. */
+    builtIn?: boolean;
+};
+
+export const PERSONA_VARIABLES = ["date", "locale", "reminders", "memory"] as const;
+export type PersonaVariables = Record<(typeof PERSONA_VARIABLES)[number], string>;
+
+export const DEFAULT_PERSONA_ID = "sage";
+export const DEFAULT_MAX_STEPS = 5;
+export const DEFAULT_TOOL_BUDGET = 8;
+export const MAX_STEPS_LIMIT = 10;
+export const TOOL_BUDGET_LIMIT = 30;
+const MAX_TEMPLATE_CHARS = 8000;
+const ALL_TOOLS = Object.keys(TOOLS);
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+    {
+        id: "sage",
+        name: "Sage",
+        description: "The default workspace assistant.",
+        template: `You are Sage AI, a high-performance Enterprise Workspace Assistant.
+Your tone is professional, helpful, and direct. You are running on Cloudflare's edge.
+Current Date: {{date}}. The user's locale is {{locale}}.
+
+{{memory}}
+
+{{reminders}}`,
+        tools: ALL_TOOLS,
+        temperature: 0.6,
+        maxTokens: 2048,
+        builtIn: true,
+    },
+    {
+        id: "code-reviewer",
+        name: "Code reviewer",
+        description: "Reviews code for bugs, security and readability.",
+        template: `You are Sage in code-review mode. Review the code the user shares for correctness, security, performance and readability.
+Group findings by severity, point to the exact lines, explain why each issue matters and suggest a concrete fix. Say so plainly when the code looks good.
+Current Date: {{date}}.
+
+{{memory}}
+
+{{reminders}}`,
+        tools: ["searchWeb", "searchDocuments", "recallFacts"],
+        temperature: 0.2,
+        maxTokens: 2048,
+        builtIn: true,
+    },
+    {
+        id: "meeting-notes",
+        name: "Meeting notes",
+        description: "Turns transcripts and rough notes into minutes and action items.",
+        template: `You are Sage in meeting-notes mode. Turn transcripts and rough notes into clear minutes: a short summary, the decisions made, and action items with owners and due dates.
+Resolve relative dates against today, {{date}}, and write dates the way the user's locale ({{locale}}) does. Offer to set reminders for action items.
+
+{{memory}}
+
+{{reminders}}`,
+        tools: ["setReminder", "listReminders", "updateReminder", "cancelReminder", "searchDocuments", "getUserInfo", "rememberFact", "recallFacts"],
+        temperature: 0.3,
+        maxTokens: 1536,
+        builtIn: true,
+    },
+    {
+        id: "terse",
+        name: "Terse",
+        description: "Shortest possible answers.",
+        template: `You are Sage in terse mode. Answer in as few words as possible: no preamble, no pleasantries, no restating the question. Use a list only when it is shorter than prose.
+Current Date: {{date}}.
+
+{{memory}}
+
+{{reminders}}`,
+        tools: ALL_TOOLS,
+        temperature: 0.4,
+        maxTokens: 512,
+        maxSteps: 3,
+        toolBudget: 4,
+        builtIn: true,
+    },
+];
+
+export function getBuiltInPersona(id: string | undefined): Persona | undefined {
+    return BUILT_IN_PERSONAS.find((p) => p.id === id);
+}
+
+/** The persona's step and tool limits, with the defaults filled in. */
+export function turnLimits(persona: Persona): { maxSteps: number; toolBudget: number } {
+    return { maxSteps: persona.maxSteps ?? DEFAULT_MAX_STEPS, toolBudget: persona.toolBudget ?? DEFAULT_TOOL_BUDGET };
+}
+
+export function templateUses(template: string, variable: keyof PersonaVariables) {
+    return new RegExp(`\\{\\{\\s*${variable}\\s*\\}\\}`).test(template);
+}
+
+/** Fills the template's variables and drops the blank lines left by empty ones. */
+export function renderPersonaPrompt(template: string, variables: PersonaVariables): string {
+    return template
+        .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+            Object.hasOwn(variables, name) ? variables[name as keyof PersonaVariables] : match
+        )
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+/** Checks a persona submitted from the client and returns it cleaned up. Invalid input throws. */
+export function validatePersona(input: Omit<Persona, "builtIn">): Persona {
+    const name = input.name?.trim();
+    if (!name) throw new Error("Persona name cannot be empty.");
+    if (!input.template?.trim()) throw new Error("Persona template cannot be empty.");
+    if (input.template.length > MAX_TEMPLATE_CHARS) {
+        throw new Error(`Persona templates are limited to ${MAX_TEMPLATE_CHARS} characters.`);
+    }
+
+    const unknownVariables = [...input.template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)]
+        .map((m) => m[1])
+        .filter((v) => !(PERSONA_VARIABLES as readonly string[]).includes(v));
+    if (unknownVariables.length > 0) {
+        throw new Error(`Unknown template variable {{${unknownVariables[0]}}}. Use ${PERSONA_VARIABLES.join(", ")}.`);
+    }
+
+    const unknownTools = input.tools.filter((t) => !ALL_TOOLS.includes(t));
+    if (unknownTools.length > 0) throw new Error(`Unknown tool "${unknownTools[0]}".`);
+    if (!(input.temperature >= 0 && input.temperature <= 2)) throw new Error("Temperature must be between 0 and 2.");
+    if (!Number.isInteger(input.maxTokens) || input.maxTokens < 64 || input.maxTokens > 4096) {
+        throw new Error("Max tokens must be a whole number between 64 and 4096.");
+    }
+    const { maxSteps, toolBudget } = turnLimits(input);
+    if (!Number.isInteger(maxSteps) || maxSteps < 2 || maxSteps > MAX_STEPS_LIMIT) {
+        throw new Error(`Max steps must be a whole number between 2 and ${MAX_STEPS_LIMIT}.`);
+    }
+    if (!Number.isInteger(toolBudget) || toolBudget < 1 || toolBudget > TOOL_BUDGET_LIMIT) {
+        throw new Error(`Tool budget must be a whole number between 1 and ${TOOL_BUDGET_LIMIT}.`);
+    }
+
+    return {
+        id: input.id,
+        name: name.slice(0, 60),
+        description: input.description?.trim().slice(0, 200) ?? "",
+        template: input.template.trim(),
+        tools: [...new Set(input.tools)],
+        temperature: input.temperature,
+        maxTokens: input.maxTokens,
+        maxSteps,
+        toolBudget,
+    };
+}
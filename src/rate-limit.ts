@@ -0,0 +1,66 @@
+type SqlValue = string | number | boolean | null;
+
+/** `Agent.sql`, bound to the agent whose Durable Object storage holds the buckets. */
+export type Sql = <T = Record<string, SqlValue>>(strings: TemplateStringsArray, ...values: SqlValue[]) => T[];
+
+export type RateLimitRule = {
+    /** Burst size: the most requests allowed back to back. */
+    capacity: number;
+    /** Sustained rate: tokens added back per second. */
+    refillPerSecond: number;
+};
+
+export type RateLimitResult =
+    | { allowed: true; remaining: number }
+    | { allowed: false; retryAfterSeconds: number };
+
+/** The longest user message, in characters, the agent accepts as a chat message or an edit. */
+export const MAX_MESSAGE_CHARS = 8000;
+
+/** Body of the structured error sent back when a chat request is refused. */
+export type ChatRequestRefusal = {
+    status: 429;
+    error: "rate_limited" | "busy";
+    message: string;
+    retryAfterSeconds: number;
+};
+
+type BucketRow = { tokens: number; updated_at: number };
+
+export function createRateLimitTable(sql: Sql) {
+    sql`create table if not exists sage_rate_limits (
+        bucket text primary key,
+        tokens real not null,
+        updated_at integer not null
+    )`;
+}
+
+/**
+ * Token bucket kept in Durable Object storage: refills continuously at
+ * `refillPerSecond` up to `capacity`, and each request takes one token.
+ */
+export function takeToken(sql: Sql, bucket: string, rule: RateLimitRule, now = Date.now()): RateLimitResult {
+    const [row] = sql<BucketRow>`select tokens, updated_at from sage_rate_limits where bucket = ${bucket}`;
+    const elapsedSeconds = row ? (now - row.updated_at) / 1000 : 0;
+    const tokens = row ? Math.min(rule.capacity, row.tokens + elapsedSeconds * rule.refillPerSecond) : rule.capacity;
+
+    if (tokens < 1) {
+        sql`update sage_rate_limits set tokens = ${tokens}, updated_at = ${now} where bucket = ${bucket}`;
+        return { allowed: false, retryAfterSeconds: Math.ceil((1 - tokens) / rule.refillPerSecond) };
+    }
+
+    sql`
+        insert or replace into sage_rate_limits (bucket, tokens, updated_at)
+        values (${bucket}, ${tokens - 1}, ${now})
+    `;
+    return { allowed: true, remaining: Math.floor(tokens - 1) };
+}
+
+/** Gives back a token `takeToken` handed out, for a request a later check refused. */
+export function returnToken(sql: Sql, bucket: string, rule: RateLimitRule, now = Date.now()) {
+    const [row] = sql<BucketRow>`select tokens, updated_at from sage_rate_limits where bucket = ${bucket}`;
+    if (!row) return;
+    const elapsedSeconds = (now - row.updated_at) / 1000;
+    const tokens = Math.min(rule.capacity, row.tokens + elapsedSeconds * rule.refillPerSecond + 1);
+    sql`update sage_rate_limits set tokens = ${tokens}, updated_at = ${now} where bucket = ${bucket}`;
+}
@@ -0,0 +1,59 @@
+import type { Schedule } from "agents";
+import { parseCronExpression } from "cron-schedule";
+
+export type ReminderPayload = { message: string };
+
+/** A scheduled reminder as shown to the model and in the sidebar. */
+export type Reminder = {
+    id: string;
+    message: string;
+    /** ISO timestamp of the next time the reminder fires. */
+    nextRunAt: string;
+    /** Cron expression for recurring reminders, null for one-shot ones. */
+    cron: string | null;
+};
+
+/** A reminder that has fired and is waiting for the user to acknowledge it. */
+export type FiredReminder = {
+    id: string;
+    /** ID of the schedule that fired; recurring reminders fire several times under one ID. */
+    reminderId: string;
+    message: string;
+    firedAt: string;
+    /** When a connected client first received it; null while the user is offline. */
+    deliveredAt: string | null;
+};
+
+/** Exactly one of these describes when a reminder fires. */
+export type ReminderTiming = {
+    delaySeconds?: number;
+    at?: string;
+    cron?: string;
+};
+
+export function toReminder(schedule: Schedule<ReminderPayload>): Reminder {
+    return {
+        id: schedule.id,
+        message: schedule.payload.message,
+        nextRunAt: new Date(schedule.time * 1000).toISOString(),
+        cron: schedule.type === "cron" ? schedule.cron : null,
+    };
+}
+
+/** Converts a timing into the `when` argument accepted by `Agent.schedule`. */
+export function resolveReminderTiming(timing: ReminderTiming): Date | number | string {
+    if (timing.cron) return timing.cron;
+    if (timing.at) {
+        const at = new Date(timing.at);
+        if (Number.isNaN(at.getTime())) throw new Error(`"${timing.at}" is not a valid date.`);
+        if (at.getTime() <= Date.now()) throw new Error(`${at.toISOString()} is in the past.`);
+        return at;
+    }
+    if (timing.delaySeconds !== undefined) return timing.delaySeconds;
+    throw new Error("A reminder needs one of delaySeconds, at or cron.");
+}
+
+/** ISO timestamp of the next time a cron expression fires after now. */
+export function nextCronRun(cron: string): string {
+    return parseCronExpression(cron).getNextDate().toISOString();
+}
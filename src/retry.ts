@@ -0,0 +1,118 @@
+import type { TurnErrorKind } from "./state";
+
+export type RetryPolicy = {
+    /** Attempts in total, the first one included. */
+    attempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    /** How long one attempt may take before it is abandoned as timed out. */
+    timeoutMs: number;
+};
+
+/** Applied to every `env.AI.run` call unless the caller passes its own. */
+export const MODEL_RETRY_POLICY: RetryPolicy = { attempts: 3, baseDelayMs: 500, maxDelayMs: 8000, timeoutMs: 30_000 };
+
+const RETRYABLE: ReadonlySet<TurnErrorKind> = new Set(["rate_limited", "timeout", "unavailable"]);
+
+/**
+ * Matched in order against the error message. Workers AI reports failures as plain
+ * errors whose message carries the HTTP status or its own error code, e.g.
+ * `3040: Capacity temporarily exceeded`.
+ */
+const ERROR_PATTERNS: [TurnErrorKind, RegExp][] = [
+    ["rate_limited", /\b429\b|rate.?limit|too many requests|capacity|\b3040\b/i],
+    ["timeout", /timed? ?out|deadline|\b408\b|\b504\b/i],
+    ["unavailable", /\b50[0-3]\b|unavailable|overloaded|upstream|internal server error|network|connection|econnreset|fetch failed/i],
+    ["invalid_request", /\b4(00|13|22)\b|invalid|bad input|context (length|window)|too long|exceeds/i],
+];
+
+/** A failed model call, classified so callers know whether trying again can help. */
+export class ModelError extends Error {
+    constructor(message: string, readonly kind: TurnErrorKind) {
+        super(message);
+        this.name = "ModelError";
+    }
+
+    get retryable() {
+        return RETRYABLE.has(this.kind);
+    }
+}
+
+export function classifyModelError(err: unknown): ModelError {
+    if (err instanceof ModelError) return err;
+    const message = err instanceof Error ? err.message : String(err);
+    if (err instanceof Error && err.name === "TimeoutError") return new ModelError(message, "timeout");
+    return new ModelError(message, ERROR_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? "internal");
+}
+
+/**
+ * Full jitter: a random delay up to the exponential backoff for the `attempt`-th retry
+ * (0-based), so callers that failed together do not retry together. Rate limits back
+ * off twice as far.
+ */
+export function backoffDelay(attempt: number, kind: TurnErrorKind, policy: RetryPolicy, random = Math.random) {
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt * (kind === "rate_limited" ? 2 : 1));
+    return Math.round(random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(signal.reason);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+/**
+ * Rejects once `ms` have passed. A result that arrives after that is handed to
+ * `discard`, so a late stream can still be cancelled.
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number, discard?: (late: T) => void): Promise<T> {
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            timedOut = true;
+            reject(new ModelError(`No response within ${ms / 1000} seconds.`, "timeout"));
+        }, ms);
+    });
+    promise.then((value) => { if (timedOut) discard?.(value); }, () => { });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+export type RetryOptions<T = unknown> = {
+    policy?: RetryPolicy;
+    /** Stops waiting between attempts; the pending wait rejects with the abort reason. */
+    signal?: AbortSignal;
+    /** Called before each retry, e.g. for logging. */
+    onRetry?: (error: ModelError, retry: number, delayMs: number) => void;
+    /** Receives results of attempts that finished after they had already timed out. */
+    discard?: (late: T) => void;
+};
+
+/**
+ * Runs `attempt` until it succeeds or fails in a way retrying cannot fix. Rate limits,
+ * timeouts and unavailable upstreams are retried with jittered exponential backoff;
+ * anything else, or the last failure, is thrown as a `ModelError`.
+ */
+export async function withRetry<T>(attempt: () => Promise<T>, options: RetryOptions<T> = {}): Promise<T> {
+    const { policy = MODEL_RETRY_POLICY, signal, onRetry, discard } = options;
+    for (let retry = 0; ; retry++) {
+        try {
+            return await withTimeout(attempt(), policy.timeoutMs, discard);
+        } catch (err) {
+            const error = classifyModelError(err);
+            if (!error.retryable || retry + 1 >= policy.attempts || signal?.aborted) throw error;
+            const delayMs = backoffDelay(retry, error.kind, policy);
+            onRetry?.(error, retry + 1, delayMs);
+            await sleep(delayMs, signal);
+        }
+    }
+}
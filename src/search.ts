@@ -0,0 +1,193 @@
+/** A search hit normalised across providers. `source` names where it came from, for citations. */
+export type SearchResult = {
+    title: string;
+    url: string;
+    snippet: string;
+    source: string;
+};
+
+export interface SearchProvider {
+    readonly name: string;
+    search(query: string): Promise<SearchResult[]>;
+}
+
+/** Provider settings read from the Worker environment (`vars` / secrets in wrangler.jsonc). */
+export type SearchEnv = {
+    /** `duckduckgo` (default), `http` or `fixture`. */
+    SEARCH_PROVIDER?: string;
+    /** `http` only: endpoint with a `{query}` placeholder, e.g. `https://api.example.com/search?q={query}`. */
+    SEARCH_URL?: string;
+    /** `http` only: sent as `Authorization: Bearer <key>`. */
+    SEARCH_API_KEY?: string;
+    /** `http` only: dot path to the results array in the response body, e.g. `web.results`. */
+    SEARCH_RESULTS_PATH?: string;
+    /** `fixture` only: JSON object mapping lower-cased queries to result arrays. */
+    SEARCH_FIXTURES?: string;
+    SEARCH_CACHE_TTL_SECONDS?: string;
+};
+
+const MAX_RESULTS = 8;
+const MAX_SNIPPET_CHARS = 300;
+export const DEFAULT_SEARCH_CACHE_TTL_SECONDS = 15 * 60;
+
+function clip(text: string, max: number) {
+    return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function hostnameOf(url: string) {
+    try {
+        return new URL(url).hostname.replace(/^www\./, "");
+    } catch {
+        return "";
+    }
+}
+
+function normalise(results: SearchResult[]): SearchResult[] {
+    const seen = new Set<string>();
+    return results
+        .filter((r) => r.snippet && r.url && !seen.has(r.url) && seen.add(r.url))
+        .slice(0, MAX_RESULTS)
+        .map((r) => ({ ...r, snippet: clip(r.snippet, MAX_SNIPPET_CHARS) }));
+}
+
+async function fetchJson(fetcher: typeof fetch, url: string, init: RequestInit, provider: string): Promise<unknown> {
+    const res = await fetcher(url, init);
+    if (!res.ok) throw new Error(`${provider} returned HTTP ${res.status}.`);
+    try {
+        return await res.json();
+    } catch {
+        throw new Error(`${provider} returned a response that is not JSON.`);
+    }
+}
+
+type DuckDuckGoTopic = { Text?: string; FirstURL?: string; Name?: string; Topics?: DuckDuckGoTopic[] };
+
+/** DuckDuckGo Instant Answer API: the abstract plus related topics, including grouped ones. */
+export class DuckDuckGoProvider implements SearchProvider {
+    readonly name = "duckduckgo";
+
+    constructor(private fetcher: typeof fetch = fetch) { }
+
+    async search(query: string): Promise<SearchResult[]> {
+        const url = `https://api.duckduckgo.com/?q=${encodeURIComponent(query)}&format=json&no_html=1&skip_disambig=1`;
+        const data = await fetchJson(this.fetcher, url, {}, "DuckDuckGo") as {
+            Heading?: string;
+            AbstractText?: string;
+            AbstractURL?: string;
+            AbstractSource?: string;
+            RelatedTopics?: DuckDuckGoTopic[];
+        };
+
+        const results: SearchResult[] = [];
+        if (data.AbstractText && data.AbstractURL) {
+            results.push({
+                title: data.Heading || query,
+                url: data.AbstractURL,
+                snippet: data.AbstractText,
+                source: data.AbstractSource || hostnameOf(data.AbstractURL),
+            });
+        }
+        const topics = (data.RelatedTopics ?? []).flatMap((t) => t.Topics ?? [t]);
+        for (const topic of topics) {
+            if (!topic.Text || !topic.FirstURL) continue;
+            results.push({
+                // Topic texts read "Title - description"; the title is the part before the dash.
+                title: topic.Text.split(" - ")[0],
+                url: topic.FirstURL,
+                snippet: topic.Text,
+                source: hostnameOf(topic.FirstURL),
+            });
+        }
+        return normalise(results);
+    }
+}
+
+/**
+ * Any JSON search API: results are read from `resultsPath` and each item is mapped
+ * from the usual field names (`title`/`name`, `url`/`link`, `snippet`/`description`).
+ */
+export class JsonHttpProvider implements SearchProvider {
+    readonly name = "http";
+
+    constructor(
+        private options: { url: string; apiKey?: string; resultsPath?: string },
+        private fetcher: typeof fetch = fetch
+    ) { }
+
+    async search(query: string): Promise<SearchResult[]> {
+        const url = this.options.url.replace("{query}", encodeURIComponent(query));
+        const headers: Record<string, string> = { Accept: "application/json" };
+        if (this.options.apiKey) headers.Authorization = `Bearer ${this.options.apiKey}`;
+
+        let items: unknown = await fetchJson(this.fetcher, url, { headers }, "Search API");
+        for (const key of (this.options.resultsPath ?? "results").split(".").filter(Boolean)) {
+            items = (items as Record<string, unknown> | undefined)?.[key];
+        }
+        if (!Array.isArray(items)) {
+            throw new Error(`Search API response has no results array at "${this.options.resultsPath ?? "results"}".`);
+        }
+
+        return normalise(items.map((item: Record<string, unknown>) => {
+            const pick = (...keys: string[]) => keys.map((k) => item[k]).find((v) => typeof v === "string") as string | undefined;
+            const resultUrl = pick("url", "link", "href") ?? "";
+            return {
+                title: pick("title", "name") ?? resultUrl,
+                url: resultUrl,
+                snippet: pick("snippet", "description", "content", "text") ?? "",
+                source: pick("source", "siteName") ?? hostnameOf(resultUrl),
+            };
+        }));
+    }
+}
+
+/** Serves canned results without touching the network, for local development and tests. */
+export class FixtureProvider implements SearchProvider {
+    readonly name = "fixture";
+
+    constructor(private fixtures: Record<string, SearchResult[]> = {}) { }
+
+    async search(query: string): Promise<SearchResult[]> {
+        const key = query.trim().toLowerCase();
+        if (Object.hasOwn(this.fixtures, key)) return normalise(this.fixtures[key]);
+        if (Object.keys(this.fixtures).length > 0) return [];
+        return [{
+            title: `Fixture result for "${query}"`,
+            url: `https://example.com/search?q=${encodeURIComponent(query)}`,
+            snippet: `Offline placeholder result for "${query}". Configure SEARCH_FIXTURES to return specific results.`,
+            source: "example.com",
+        }];
+    }
+}
+
+/** Picks the provider named by `SEARCH_PROVIDER`. Misconfiguration throws so it is reported, not hidden. */
+export function createSearchProvider(env: SearchEnv, fetcher: typeof fetch = fetch): SearchProvider {
+    switch ((env.SEARCH_PROVIDER ?? "duckduckgo").toLowerCase()) {
+        case "duckduckgo":
+            return new DuckDuckGoProvider(fetcher);
+        case "http":
+            if (!env.SEARCH_URL) throw new Error("SEARCH_PROVIDER is \"http\" but SEARCH_URL is not set.");
+            return new JsonHttpProvider(
+                { url: env.SEARCH_URL, apiKey: env.SEARCH_API_KEY, resultsPath: env.SEARCH_RESULTS_PATH },
+                fetcher
+            );
+        case "fixture": {
+            let fixtures: Record<string, SearchResult[]> = {};
+            if (env.SEARCH_FIXTURES) {
+                try {
+                    fixtures = JSON.parse(env.SEARCH_FIXTURES);
+                } catch {
+                    throw new Error("SEARCH_FIXTURES is not valid JSON.");
+                }
+            }
+            return new FixtureProvider(fixtures);
+        }
+        default:
+            throw new Error(`Unknown SEARCH_PROVIDER "${env.SEARCH_PROVIDER}". Use duckduckgo, http or fixture.`);
+    }
+}
+
+export function searchCacheTtlSeconds(env: SearchEnv): number {
+    if (env.SEARCH_CACHE_TTL_SECONDS === undefined) return DEFAULT_SEARCH_CACHE_TTL_SECONDS;
+    const ttl = Number(env.SEARCH_CACHE_TTL_SECONDS);
+    return Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_SEARCH_CACHE_TTL_SECONDS;
+}
@@ -1,101 +1,83 @@
 import { AIChatAgent } from "@cloudflare/ai-chat";
-import { routeAgentRequest } from "agents";
+import { MessageType } from "@cloudflare/ai-chat/types";
+import { callable, getAgentByName, routeAgentRequest } from "agents";
+import type { AgentContext, Connection, ConnectionContext, Schedule, WSMessage } from "agents";
 import {
     createUIMessageStream,
     createUIMessageStreamResponse,
+    getToolName,
+    isToolUIPart,
 } from "ai";
 import type { StreamTextOnFinishCallback, ToolSet, UIMessage } from "ai";
-import { z } from "zod";
+import type { OnChatMessageOptions } from "@cloudflare/ai-chat";
+import { handleAdminRequest } from "./admin";
+import { authenticate, authErrorResponse, authorizeAgent, handleAuthRequest } from "./auth";
+import type { AgentTarget, AuthEnv } from "./auth";
+import { CITATION_INSTRUCTIONS, extractCitations } from "./citations";
+import type { CitedSearchResult } from "./citations";
+import {
+    estimateTokens,
+    firstRecentTurn,
+    formatTranscript,
+    splitTurns,
+    SUMMARY_MAX_TOKENS,
+    SUMMARY_SYSTEM_PROMPT,
+} from "./context";
+import type { DeliveryEnv } from "./delivery";
+import { createDocumentTables, createEmbedder, DocumentStore, isDocumentUrl, toCitableResult } from "./documents";
+import type { DocumentHit, DocumentsEnv } from "./documents";
+import { branchPoints, clearMessageTree, createMessageTreeTable, pathThrough, recordPath } from "./message-tree";
+import { getModel, resolveModel } from "./models";
+import type { ModelInfo } from "./models";
+import { DEFAULT_PERSONA_ID, getBuiltInPersona, renderPersonaPrompt, templateUses, turnLimits } from "./personas";
+import type { Persona } from "./personas";
+import { createRateLimitTable, MAX_MESSAGE_CHARS, returnToken, takeToken } from "./rate-limit";
+import type { ChatRequestRefusal, RateLimitResult, RateLimitRule } from "./rate-limit";
+import { nextCronRun, resolveReminderTiming, toReminder } from "./reminders";
+import type { FiredReminder, Reminder, ReminderPayload, ReminderTiming } from "./reminders";
+import { classifyModelError, ModelError } from "./retry";
+import { createSearchProvider, searchCacheTtlSeconds } from "./search";
+import type { SearchEnv, SearchResult } from "./search";
+import { DEFAULT_SHARE_TTL_DAYS, parseSharePath, sharedPageResponse } from "./shares";
+import type { SharesEnv } from "./shares";
+import type { DocumentInfo, DocumentKind, SageMessageMetadata, SageState, ShareInfo, StepLimitNotice, TurnError, TurnErrorKind } from "./state";
+import { DEFAULT_THREAD_TITLE, TITLE_SYSTEM_PROMPT } from "./thread-index";
+import type { ThreadIndexAgent } from "./thread-index";
+import { buildToolSchemas, parseToolCall, runToolsConcurrently, toolCallKey } from "./tools";
+import type { AnyToolDefinition, ToolContext, WorkersAITool } from "./tools";
+import { createTraceTables, errorMessage, listTraces, resolveToolCallTrace, TraceRecorder, traceStats } from "./traces";
+import type { ToolCallOutcome, TraceStats, TurnTrace } from "./traces";
+import { createConversationExport, toExportFile } from "./transcript";
+import type { ConversationExport, ExportFile, ExportFormat } from "./transcript";
+import { completeChat, readWorkersAIStream, streamChat, ToolCallAccumulator } from "./workers-ai";
+import type { WorkersAIMessage, WorkersAIStreamChunk, WorkersAIToolCall } from "./workers-ai";
+
+export { ThreadIndexAgent } from "./thread-index";
 
-interface Env {
+export interface Env extends SearchEnv, AuthEnv, DocumentsEnv, DeliveryEnv, SharesEnv {
     AI: Ai;
     ChatAgent: DurableObjectNamespace<ChatAgent>;
+    ThreadIndexAgent: DurableObjectNamespace<ThreadIndexAgent>;
     ASSETS: Fetcher;
 }
 
-type WorkersAIMessage = {
-    role: "system" | "user" | "assistant" | "tool";
-    content: string;
-    tool_call_id?: string;
-    name?: string;
-    tool_calls?: WorkersAIToolCall[];
-};
-
-type WorkersAIToolCall = {
-    id: string;
-    type: "function";
-    function: { name: string; arguments: string };
-};
-
-const TOOLS_SCHEMA = [
-    {
-        type: "function" as const,
-        function: {
-            name: "searchWeb",
-            description: "Search the web for current information on any topic.",
-            parameters: {
-                type: "object",
-                properties: {
-                    query: { type: "string", description: "The search query" },
-                },
-                required: ["query"],
-            },
-        },
-    },
-    {
-        type: "function" as const,
-        function: {
-            name: "getUserInfo",
-            description: "Get the user's browser timezone, locale, and local time. Runs in the user's browser.",
-            parameters: { type: "object", properties: {} },
-        },
-    },
-    {
-        type: "function" as const,
-        function: {
-            name: "setReminder",
-            description: "Schedule a reminder for the user. Always requires user approval first.",
-            parameters: {
-                type: "object",
-                properties: {
-                    message: { type: "string", description: "The reminder message" },
-                    delaySeconds: { type: "number", description: "Seconds from now to trigger" },
-                },
-                required: ["message", "delaySeconds"],
-            },
-        },
-    },
-];
-
-async function executeSearchWeb(query: string): Promise<string> {
-    try {
-        const url = `https://api.duckduckgo.com/?q=${encodeURIComponent(query)}&format=json&no_html=1&skip_disambig=1`;
-        const res = await fetch(url);
-        const data = (await res.json()) as {
-            AbstractText: string;
-            RelatedTopics: Array<{ Text?: string; FirstURL?: string }>;
-        };
-        const abstract = data.AbstractText?.slice(0, 500) ?? null;
-        const related = (data.RelatedTopics ?? [])
-            .filter((t) => t.Text)
-            .slice(0, 4)
-            .map((t) => `- ${t.Text?.slice(0, 120)}`);
-        if (!abstract && related.length === 0) {
-            return JSON.stringify({ summary: `No results found for "${query}".` });
-        }
-        return JSON.stringify({ summary: abstract ?? "See related:", results: related });
-    } catch {
-        return JSON.stringify({ error: "Search temporarily unavailable." });
-    }
+// Static tool parts carry their name in the part type ("tool-searchWeb"), dynamic ones in toolName.
+function toolNameOf(part: { type: string; toolName?: string }): string {
+    return part.toolName ?? part.type.replace(/^tool-/, "");
 }
 
-function uiMessagesToWorkersAI(messages: UIMessage[]): WorkersAIMessage[] {
+/**
+ * Converts chat history to the Workers AI message format. Callers pass `this.messages`,
+ * which is always the active path through the message tree, so messages on other
+ * branches never reach the model.
+ */
+export function uiMessagesToWorkersAI(messages: UIMessage[]): WorkersAIMessage[] {
     const out: WorkersAIMessage[] = [];
     for (const msg of messages) {
         const textParts = msg.parts.filter((p) => p.type === "text").map(p => (p as { text: string }).text).join("\n");
         const toolParts = msg.parts.filter((p) => typeof p.type === "string" && (p.type.startsWith("tool-") || p.type === "dynamic-tool")) as unknown as Array<{
             type: string; toolCallId: string; toolName?: string; state: string;
-            input?: unknown; output?: unknown;
+            input?: unknown; output?: unknown; errorText?: string;
         }>;
 
         if (msg.role === "user") {
@@ -103,26 +85,30 @@ function uiMessagesToWorkersAI(messages: UIMessage[]): WorkersAIMessage[] {
         } else if (msg.role === "assistant") {
             const assistantMsg: WorkersAIMessage = { role: "assistant", content: textParts || "" };
 
-            const calls = toolParts.filter(t => t.state === "output-available" || t.state === "rejected" || t.state === "approval-required");
+            const calls = toolParts.filter(t => t.state === "output-available" || t.state === "output-error" || t.state === "output-denied" || t.state === "approval-requested");
+            // A turn that failed before saying anything leaves only its error part behind.
+            if (!textParts && calls.length === 0) continue;
             if (calls.length > 0) {
                 assistantMsg.tool_calls = calls.map(t => ({
                     id: t.toolCallId,
                     type: "function",
-                    function: { name: t.toolName || "unknown", arguments: JSON.stringify(t.input ?? {}) }
+                    function: { name: toolNameOf(t), arguments: JSON.stringify(t.input ?? {}) }
                 }));
             }
             out.push(assistantMsg);
 
             // Immediately follow with tool results for this assistant message if they exist
             for (const t of calls) {
-                if (t.state === "output-available" || t.state === "rejected") {
+                if (t.state === "output-available" || t.state === "output-error" || t.state === "output-denied") {
                     out.push({
                         role: "tool",
                         tool_call_id: t.toolCallId,
-                        name: t.toolName,
-                        content: t.state === "rejected"
+                        name: toolNameOf(t),
+                        content: t.state === "output-denied"
                             ? "Error: User rejected this action."
-                            : JSON.stringify(t.output ?? {})
+                            : t.state === "output-error"
+                                ? `Error: ${t.errorText ?? "Tool call failed."}`
+                                : JSON.stringify(t.output ?? {})
                     });
                 }
             }
@@ -131,149 +117,1436 @@ function uiMessagesToWorkersAI(messages: UIMessage[]): WorkersAIMessage[] {
     return out;
 }
 
-export class ChatAgent extends AIChatAgent<Env> {
-    private _isGenerating = false;
-    private _lastRequestTime = 0;
+const TURN_ERROR_MESSAGES: Record<TurnErrorKind, string> = {
+    rate_limited: "The model is receiving too many requests right now.",
+    timeout: "The model took too long to respond.",
+    unavailable: "The model is temporarily unavailable.",
+    invalid_request: "The model could not process this conversation. Try a different model, or start a new thread if it has grown very long.",
+    internal: "Something went wrong while generating the answer.",
+};
+
+/** What the client is told about a failed turn; model error details stay in the logs and traces. */
+const TOO_LONG_ERROR = `Messages can be at most ${MAX_MESSAGE_CHARS.toLocaleString("en-US")} characters long.`;
 
-    private async _scheduleReminder(message: string, delaySeconds: number) {
-        await this.schedule(delaySeconds, "onTask", { message });
-        return { scheduled: true, message, inSeconds: delaySeconds };
+/** The text of the last user message in a chat request body, or "" if it has none. */
+function latestUserText(body: string | undefined): string {
+    try {
+        const { messages } = JSON.parse(body ?? "{}") as { messages?: UIMessage[] };
+        const last = messages?.findLast((m) => m.role === "user");
+        return last?.parts.map((p) => (p.type === "text" ? p.text : "")).join("") ?? "";
+    } catch {
+        return "";
     }
+}
 
-    async onTask(data: unknown) {
-        const { message } = data as { message: string };
-        const currentState = (this.state as Record<string, unknown>) ?? {};
-        const reminders: string[] = Array.isArray(
-            (currentState as { reminders?: string[] }).reminders
-        )
-            ? (currentState as { reminders: string[] }).reminders
-            : [];
-        reminders.push(`⏰ Reminder: ${message} (triggered at ${new Date().toISOString()})`);
-        this.setState({ ...currentState, reminders });
+function toTurnError(err: unknown): TurnError {
+    const error = err instanceof ModelError ? err : new ModelError(errorMessage(err), "internal");
+    return { kind: error.kind, message: TURN_ERROR_MESSAGES[error.kind], retryable: error.retryable || error.kind === "internal" };
+}
+
+/** Tools report failures as an `{ error }` object rather than throwing; traces count those as errors. */
+function toolOutcome(output: unknown): { outcome: ToolCallOutcome; error?: string } {
+    const error = typeof output === "object" && output !== null ? (output as { error?: unknown }).error : undefined;
+    return typeof error === "string" ? { outcome: "error", error } : { outcome: "ok" };
+}
+
+const STEP_LIMIT_INSTRUCTION = "You have used every tool call available for this answer. Answer the user now with the information you already have, and say briefly what you could not look up.";
+const CLIENT_TOOL_TIMEOUT_SECONDS = 30;
+/** Per-conversation limit: bursts of 5 messages, then one every 6 seconds. */
+const THREAD_RATE_LIMIT: RateLimitRule = { capacity: 5, refillPerSecond: 1 / 6 };
+/** One turn running plus one waiting; anything beyond that is refused. */
+const MAX_PENDING_TURNS = 2;
+const BUSY_RETRY_SECONDS = 5;
+const INTERRUPTED_TOOL_ERROR = "Skipped: the user stopped the response.";
+const DOCUMENT_RESULTS = 4;
+const RECALL_LIMIT = 10;
+/** Memories put in the system prompt: at most this many, and only ones this close to the user's message. */
+const MEMORY_PROMPT_LIMIT = 5;
+const MEMORY_MIN_SCORE = 0.35;
+const MAX_TRACES_LISTED = 100;
+const NO_INDEX_ERROR = "Memory is only available in threads opened from the thread list.";
+
+type PendingApproval = {
+    tool_call_id: string;
+    approval_id: string;
+    tool_name: string;
+    input: string;
+    created_at: number;
+};
+
+type ReminderDelivery = {
+    id: string;
+    reminder_id: string;
+    message: string;
+    fired_at: number;
+    delivered_at: number | null;
+    surfaced_at: number | null;
+    acknowledged_at: number | null;
+};
+
+type ConversationSummary = {
+    summary: string;
+    through_message_id: string;
+    updated_at: number;
+};
+
+type CitationSource = {
+    id: number;
+    url: string;
+    title: string;
+    source: string;
+};
+
+type SearchCacheEntry = {
+    cache_key: string;
+    results: string;
+    expires_at: number;
+};
+
+type ThreadMeta = {
+    index_name: string;
+    titled: number;
+};
+
+/**
+ * `AIChatAgent` internals, private in the package's typings: `_reply` streams a response to
+ * every client and persists it (dropping the abort controller for `chatMessageId` when it ends),
+ * and the controllers map is where each request's abort signal is kept.
+ */
+type ReplyInternals = {
+    _reply(id: string, response: Response, excludeBroadcastIds?: string[], options?: { chatMessageId?: string }): Promise<void>;
+    _getAbortSignal(id: string): AbortSignal;
+    _cancelChatRequest(id: string): void;
+    _chatMessageAbortControllers: Map<string, AbortController>;
+};
+
+type PendingClientTool = {
+    tool_call_id: string;
+    tool_name: string;
+    pass: number;
+    schedule_id: string;
+    created_at: number;
+};
+
+export class ChatAgent extends AIChatAgent<Env, SageState> {
+    initialState: SageState = { firedReminders: [], upcomingReminders: [] };
+
+    private _resumeFromPass = 0;
+    /** Tail of the single-flight queue; each turn starts only once the previous one is persisted. */
+    private _turnQueue: Promise<unknown> = Promise.resolve();
+    private _pendingTurns = 0;
+    /** Set when the user stopped the current turn, so its partial message gets re-broadcast. */
+    private _interruptedTurn = false;
+    /** Chat requests waiting in the queue, and those of them the client cancelled before they started. */
+    private _queuedRequests = new Set<string>();
+    private _cancelledRequests = new Set<string>();
+    /** Reply ID of the turn the agent started itself (a resume, regenerate or edit), while it runs. */
+    private _serverTurnId: string | null = null;
+    /** Makes the agent's own outbound requests, such as web searches; the test harness swaps in a fake. */
+    protected fetcher: typeof fetch = (input, init) => fetch(input, init);
+
+    constructor(ctx: AgentContext, env: Env) {
+        super(ctx, env);
+        this.sql`create table if not exists sage_pending_approvals (
+            tool_call_id text primary key,
+            approval_id text not null,
+            tool_name text not null,
+            input text not null,
+            created_at integer not null
+        )`;
+        this.sql`create table if not exists sage_pending_client_tools (
+            tool_call_id text primary key,
+            tool_name text not null,
+            pass integer not null,
+            schedule_id text not null,
+            created_at integer not null
+        )`;
+        this.sql`create table if not exists sage_reminder_deliveries (
+            id text primary key,
+            reminder_id text not null,
+            message text not null,
+            fired_at integer not null,
+            delivered_at integer,
+            surfaced_at integer,
+            acknowledged_at integer
+        )`;
+        this.sql`create table if not exists sage_search_cache (
+            cache_key text primary key,
+            results text not null,
+            expires_at integer not null
+        )`;
+        this.sql`create table if not exists sage_sources (
+            id integer primary key autoincrement,
+            url text not null unique,
+            title text not null,
+            source text not null
+        )`;
+        this.sql`create table if not exists sage_thread_meta (
+            id integer primary key check (id = 1),
+            index_name text not null,
+            titled integer not null default 0
+        )`;
+        this.sql`create table if not exists sage_conversation_summary (
+            id integer primary key check (id = 1),
+            summary text not null,
+            through_message_id text not null,
+            updated_at integer not null
+        )`;
+
+        createRateLimitTable(this.sql.bind(this));
+        createMessageTreeTable(this.sql.bind(this));
+        createDocumentTables(this.sql.bind(this));
+        createTraceTables(this.sql.bind(this));
+
+        // Approval decisions are handled here rather than by AIChatAgent, which only
+        // continues the turn on approval and never executes the gated tool itself.
+        const onMessage = this.onMessage.bind(this);
+        this.onMessage = async (connection: Connection, message: WSMessage) => {
+            if (typeof message === "string") {
+                let data: {
+                    type?: string;
+                    id?: string;
+                    init?: { body?: string };
+                    toolCallId?: string;
+                    approved?: boolean;
+                    output?: unknown;
+                    autoContinue?: boolean;
+                } | undefined;
+                try { data = JSON.parse(message); } catch { }
+
+                if (data?.type === MessageType.CF_AGENT_USE_CHAT_REQUEST && data.id) {
+                    const tooLong = latestUserText(data.init?.body).length > MAX_MESSAGE_CHARS;
+                    if (tooLong) {
+                        connection.send(JSON.stringify({
+                            type: MessageType.CF_AGENT_USE_CHAT_RESPONSE,
+                            id: data.id,
+                            body: TOO_LONG_ERROR,
+                            done: true,
+                            error: true,
+                        }));
+                        return;
+                    }
+                    const requestId = data.id;
+                    const internals = this as unknown as ReplyInternals;
+                    // Counted as queued from here, so a cancel sent while the rate limits are checked is kept.
+                    this._queuedRequests.add(requestId);
+                    const refusal = await this._admitChatRequest();
+                    if (refusal) {
+                        this._queuedRequests.delete(requestId);
+                        this._cancelledRequests.delete(requestId);
+                        connection.send(JSON.stringify({
+                            type: MessageType.CF_AGENT_USE_CHAT_RESPONSE,
+                            id: requestId,
+                            body: JSON.stringify(refusal),
+                            done: true,
+                            error: true,
+                        }));
+                        return;
+                    }
+                    return this._enqueueTurn(async () => {
+                        this._queuedRequests.delete(requestId);
+                        if (this._cancelledRequests.delete(requestId)) {
+                            connection.send(JSON.stringify({
+                                type: MessageType.CF_AGENT_USE_CHAT_RESPONSE,
+                                id: requestId,
+                                body: "",
+                                done: true,
+                            }));
+                            return;
+                        }
+                        // AIChatAgent picks this controller up, so a cancel sent from now on reaches the turn.
+                        internals._getAbortSignal(requestId);
+                        try {
+                            await onMessage(connection, message);
+                        } finally {
+                            internals._chatMessageAbortControllers.delete(requestId);
+                        }
+                        // The stopping client has already dropped the stream, so it only
+                        // sees the "interrupted" marker through a fresh broadcast.
+                        if (this._interruptedTurn) {
+                            this._interruptedTurn = false;
+                            await this.persistMessages(this.messages);
+                        }
+                    });
+                }
+                // AIChatAgent only knows requests that have started; a cancel for one still
+                // in the queue is kept so the request is dropped when its turn comes.
+                if (data?.type === MessageType.CF_AGENT_CHAT_REQUEST_CANCEL && data.id && this._queuedRequests.has(data.id)) {
+                    this._cancelledRequests.add(data.id);
+                    return;
+                }
+                if (data?.type === MessageType.CF_AGENT_TOOL_APPROVAL && data.toolCallId) {
+                    const { toolCallId, approved } = data;
+                    return this._enqueueTurn(() => this._resolveApproval(toolCallId, approved === true));
+                }
+                if (data?.type === MessageType.CF_AGENT_TOOL_RESULT && data.toolCallId) {
+                    const { toolCallId, output, autoContinue } = data;
+                    return this._enqueueTurn(() => this._resolveClientToolResult(toolCallId, output, autoContinue === true));
+                }
+                if (data?.type === MessageType.CF_AGENT_CHAT_CLEAR) {
+                    this.sql`delete from sage_pending_approvals`;
+                    this.sql`delete from sage_pending_client_tools`;
+                    this.sql`delete from sage_conversation_summary`;
+                    this.sql`delete from sage_sources`;
+                    clearMessageTree(this.sql.bind(this));
+                    this.setState({ ...this.state, branches: {} });
+                }
+            }
+            return onMessage(connection, message);
+        };
+    }
+
+    /**
+     * Runs `turn` once every earlier turn has finished streaming and been persisted, so
+     * overlapping requests never run model passes against the same history.
+     */
+    private _enqueueTurn<T>(turn: () => Promise<T>): Promise<T> {
+        this._pendingTurns++;
+        const result = this._turnQueue.then(turn).finally(() => this._pendingTurns--);
+        this._turnQueue = result.catch(() => { });
+        return result;
+    }
+
+    /** Checks the queue and the conversation and user rate limits; returns why a chat request is refused, if it is. */
+    private async _admitChatRequest(): Promise<ChatRequestRefusal | null> {
+        if (this._pendingTurns >= MAX_PENDING_TURNS) {
+            return {
+                status: 429,
+                error: "busy",
+                message: "Sage is still answering your previous message.",
+                retryAfterSeconds: BUSY_RETRY_SECONDS,
+            };
+        }
+
+        let limit: RateLimitResult = takeToken(this.sql.bind(this), "thread", THREAD_RATE_LIMIT);
+        if (limit.allowed) {
+            const index = await this._threadIndex();
+            if (index) limit = await index.takeChatToken();
+            // A request the user's bucket refuses must not use up the conversation's allowance.
+            if (!limit.allowed) returnToken(this.sql.bind(this), "thread", THREAD_RATE_LIMIT);
+        }
+        if (limit.allowed) return null;
+
+        return {
+            status: 429,
+            error: "rate_limited",
+            message: "You're sending messages too quickly.",
+            retryAfterSeconds: limit.retryAfterSeconds,
+        };
+    }
+
+    /**
+     * Like AIChatAgent's, but resolves only once the reply has streamed and been persisted,
+     * so a resumed or regenerated turn run through `_enqueueTurn` holds the queue until it
+     * is done instead of only until the model call starts. The turn gets an abort signal
+     * like a chat request's, which `stopTurn` fires.
+     */
+    async saveMessages(messages: UIMessage[]) {
+        await this.persistMessages(messages);
+        const internals = this as unknown as ReplyInternals;
+        const id = crypto.randomUUID();
+        const abortSignal = internals._getAbortSignal(id);
+        this._serverTurnId = id;
+        this.setState({ ...this.state, serverTurn: true });
+        try {
+            const response = await this.onChatMessage(() => { }, { abortSignal });
+            if (response) await internals._reply(id, response, [], { chatMessageId: id });
+        } finally {
+            internals._chatMessageAbortControllers.delete(id);
+            this._serverTurnId = null;
+            // Every client saw this reply through a broadcast, interrupted marker included.
+            this._interruptedTurn = false;
+            this.setState({ ...this.state, serverTurn: false });
+        }
+    }
+
+    /** Stops the turn the agent started itself, if one is running; chat requests are stopped by cancelling them. */
+    @callable()
+    async stopTurn(): Promise<boolean> {
+        if (!this._serverTurnId) return false;
+        (this as unknown as ReplyInternals)._cancelChatRequest(this._serverTurnId);
+        return true;
+    }
+
+    /** Mirrors every persisted history into the message tree and publishes its branch points. */
+    async persistMessages(messages: UIMessage[], excludeBroadcastIds: string[] = []) {
+        await super.persistMessages(messages, excludeBroadcastIds);
+        const sql = this.sql.bind(this);
+        recordPath(sql, this.messages);
+        const branches = branchPoints(sql, this.messages);
+        if (JSON.stringify(branches) !== JSON.stringify(this.state.branches ?? {})) {
+            this.setState({ ...this.state, branches });
+        }
     }
 
-    async onChatMessage(onFinish: StreamTextOnFinishCallback<ToolSet>) {
+    /**
+     * Makes `path` the active conversation. Messages not on it leave the chat history but
+     * stay in the tree; approvals and browser tool calls still waiting on them are dropped.
+     * With `respond`, the model then answers the last message on the path.
+     */
+    private async _activatePath(path: UIMessage[], respond: boolean) {
+        const onPath = new Set(path.map((m) => m.id));
+        for (const message of this.messages) {
+            if (!onPath.has(message.id)) this.sql`delete from cf_ai_chat_agent_messages where id = ${message.id}`;
+        }
+
+        const toolCallIds = new Set(path.flatMap((m) => m.parts.flatMap((p) => ("toolCallId" in p ? [p.toolCallId] : []))));
+        for (const pending of this.sql<PendingApproval>`select * from sage_pending_approvals`) {
+            if (!toolCallIds.has(pending.tool_call_id)) {
+                this.sql`delete from sage_pending_approvals where tool_call_id = ${pending.tool_call_id}`;
+            }
+        }
+        for (const pending of this.sql<PendingClientTool>`select * from sage_pending_client_tools`) {
+            if (toolCallIds.has(pending.tool_call_id)) continue;
+            this.sql`delete from sage_pending_client_tools where tool_call_id = ${pending.tool_call_id}`;
+            await this.cancelSchedule(pending.schedule_id);
+        }
+
+        if (respond) {
+            await this.saveMessages(path);
+        } else {
+            await this.persistMessages(path);
+        }
+    }
+
+    /**
+     * Answers the user message before `messageId` again; the previous answer stays
+     * available as a branch. Returns the refusal when the request is rate limited or the
+     * queue is full, and null once the new answer is done.
+     */
+    @callable()
+    async regenerate(messageId: string): Promise<ChatRequestRefusal | null> {
+        const refusal = await this._admitChatRequest();
+        if (refusal) return refusal;
+
+        await this._enqueueTurn(async () => {
+            const index = this.messages.findIndex((m) => m.id === messageId);
+            if (index < 0 || this.messages[index].role !== "assistant") {
+                throw new Error(`No assistant message with ID "${messageId}".`);
+            }
+            const userIndex = this.messages.slice(0, index).findLastIndex((m) => m.role === "user");
+            if (userIndex < 0) throw new Error("There is no user message to answer again.");
+            await this._activatePath(this.messages.slice(0, userIndex + 1), true);
+        });
+        return null;
+    }
+
+    /**
+     * Replaces the text of a user message and continues from there; the original stays
+     * available as a branch. Refused like `regenerate`.
+     */
+    @callable()
+    async editMessage(messageId: string, text: string): Promise<ChatRequestRefusal | null> {
+        if (!text.trim()) throw new Error("Message text cannot be empty.");
+        if (text.length > MAX_MESSAGE_CHARS) throw new Error(TOO_LONG_ERROR);
+        const refusal = await this._admitChatRequest();
+        if (refusal) return refusal;
+
+        await this._enqueueTurn(async () => {
+            const index = this.messages.findIndex((m) => m.id === messageId);
+            const original = this.messages[index];
+            if (!original || original.role !== "user") {
+                throw new Error(`No user message with ID "${messageId}".`);
+            }
+            const edited: UIMessage = {
+                id: crypto.randomUUID(),
+                role: "user",
+                parts: [...original.parts.filter((p) => p.type !== "text"), { type: "text", text }],
+            };
+            await this._activatePath([...this.messages.slice(0, index), edited], true);
+        });
+        return null;
+    }
+
+    /** Shows the branch that contains `messageId`, continuing with the version last seen below it. */
+    @callable()
+    async switchBranch(messageId: string) {
+        return this._enqueueTurn(async () => {
+            const path = pathThrough(this.sql.bind(this), messageId);
+            if (!path) throw new Error(`No message with ID "${messageId}".`);
+            await this._activatePath(path, false);
+        });
+    }
+
+    private _toolContext(): ToolContext {
+        return {
+            searchWeb: (query) => this._searchWeb(query),
+            searchDocuments: (query) => this._searchDocuments(query),
+            rememberFact: (fact) => this._rememberFact(fact),
+            recallFacts: (query) => this._recallFacts(query),
+            forgetFact: (id) => this._forgetFact(id),
+            scheduleReminder: (message, timing) => this._scheduleReminder(message, timing),
+            listReminders: () => this._listReminders(),
+            cancelReminder: (id) => this.cancelReminder(id),
+            updateReminder: (id, changes) => this._updateReminder(id, changes),
+        };
+    }
+
+    /**
+     * Runs a query against the configured search provider, serving repeated queries from
+     * `sage_search_cache` until their TTL runs out. Failures are returned to the model
+     * with their actual cause and are not cached.
+     */
+    private async _searchWeb(query: string) {
         const now = Date.now();
-        if (this._isGenerating && (now - this._lastRequestTime < 10000)) {
-            console.warn("Possible concurrent request within 10s. Guarding state.");
+        let provider;
+        try {
+            provider = createSearchProvider(this.env, this.fetcher);
+        } catch (err) {
+            return { query, results: [], error: err instanceof Error ? err.message : String(err) };
         }
 
-        this._isGenerating = true;
-        this._lastRequestTime = now;
+        const cacheKey = `${provider.name}:${query.trim().toLowerCase()}`;
+        const [cached] = this.sql<SearchCacheEntry>`
+            select * from sage_search_cache where cache_key = ${cacheKey} and expires_at > ${now}
+        `;
+        if (cached) {
+            return { query, provider: provider.name, results: this._numberSources(JSON.parse(cached.results)), cached: true };
+        }
 
-        const stateObj = (this.state as Record<string, unknown>) ?? {};
-        const pendingReminders: string[] = Array.isArray((stateObj as { reminders?: string[] }).reminders)
-            ? (stateObj as { reminders: string[] }).reminders
-            : [];
+        let results: SearchResult[];
+        try {
+            results = await provider.search(query);
+        } catch (err) {
+            console.error(`[Sage] Search via ${provider.name} failed:`, err);
+            return { query, provider: provider.name, results: [], error: `Search failed: ${err instanceof Error ? err.message : String(err)}` };
+        }
+
+        const ttl = searchCacheTtlSeconds(this.env);
+        this.sql`delete from sage_search_cache where expires_at <= ${now}`;
+        if (ttl > 0) {
+            this.sql`
+                insert or replace into sage_search_cache (cache_key, results, expires_at)
+                values (${cacheKey}, ${JSON.stringify(results)}, ${now + ttl * 1000})
+            `;
+        }
+        return { query, provider: provider.name, results: this._numberSources(results) };
+    }
+
+    private _documents() {
+        return new DocumentStore(this.sql.bind(this), createEmbedder(this.env.AI, this.env));
+    }
+
+    /** Adds a document to this conversation; only this thread's `searchDocuments` can find it. */
+    @callable()
+    async uploadDocument(name: string, kind: DocumentKind, text: string): Promise<DocumentInfo> {
+        const document = await this._documents().add(name, kind, text);
+        this.setState({ ...this.state, documents: this._documents().list() });
+        return document;
+    }
+
+    @callable()
+    async deleteDocument(id: string) {
+        if (!this._documents().remove(id)) throw new Error(`No document with ID "${id}".`);
+        this.setState({ ...this.state, documents: this._documents().list() });
+    }
+
+    /**
+     * Similarity search over the documents uploaded to this conversation and to the
+     * user's workspace. Hits are numbered like web results so answers cite them the same way.
+     */
+    private async _searchDocuments(query: string) {
+        let hits: DocumentHit[];
+        try {
+            hits = await this._documents().search(query, DOCUMENT_RESULTS);
+            const index = await this._threadIndex();
+            if (index) hits = [...hits, ...await index.searchDocuments(query, DOCUMENT_RESULTS)];
+        } catch (err) {
+            console.error("[Sage] Document search failed:", err);
+            return { query, results: [], error: `Document search failed: ${err instanceof Error ? err.message : String(err)}` };
+        }
+
+        if (hits.length === 0) return { query, results: [], error: "No documents have been uploaded yet." };
+        const best = hits.sort((a, b) => b.score - a.score).slice(0, DOCUMENT_RESULTS);
+        return { query, results: this._numberSources(best.map(toCitableResult)) };
+    }
+
+    /** The user's `ThreadIndexAgent`, or null for threads not created through an index. */
+    private async _threadIndex() {
+        const [meta] = this.sql<ThreadMeta>`select * from sage_thread_meta where id = 1`;
+        return meta ? getAgentByName(this.env.ThreadIndexAgent, meta.index_name) : null;
+    }
+
+    private async _rememberFact(fact: string) {
+        const index = await this._threadIndex();
+        if (!index) return { remembered: false, error: NO_INDEX_ERROR };
+        try {
+            const { memory, replaced } = await index.rememberFact(fact, this.name);
+            return { remembered: true, replaced, id: memory.id, fact: memory.fact };
+        } catch (err) {
+            return { remembered: false, error: err instanceof Error ? err.message : String(err) };
+        }
+    }
+
+    private async _recallFacts(query?: string) {
+        const index = await this._threadIndex();
+        if (!index) return { facts: [], error: NO_INDEX_ERROR };
+        try {
+            const memories = await index.recallFacts(query, RECALL_LIMIT);
+            return { facts: memories.map((m) => ({ id: m.id, fact: m.fact, rememberedAt: m.updatedAt })) };
+        } catch (err) {
+            return { facts: [], error: err instanceof Error ? err.message : String(err) };
+        }
+    }
+
+    private async _forgetFact(id: string) {
+        const index = await this._threadIndex();
+        if (!index) return { forgotten: false, error: NO_INDEX_ERROR };
+        try {
+            await index.forgetMemory(id);
+            return { forgotten: true, id };
+        } catch (err) {
+            return { forgotten: false, error: err instanceof Error ? err.message : String(err) };
+        }
+    }
+
+    /** Memories relevant to the latest user message, for the system prompt. Failures only cost the memories. */
+    private async _relevantMemories(): Promise<string[]> {
+        const latest = this.messages.findLast((m) => m.role === "user");
+        const text = latest?.parts.map((p) => (p.type === "text" ? p.text : "")).join("\n").trim();
+        if (!text) return [];
+        try {
+            const index = await this._threadIndex();
+            if (!index) return [];
+            const memories = await index.recallFacts(text, MEMORY_PROMPT_LIMIT, MEMORY_MIN_SCORE);
+            return memories.map((m) => m.fact);
+        } catch (err) {
+            console.error("[Sage] Memory recall failed:", err);
+            return [];
+        }
+    }
+
+    /**
+     * Gives every result a citation id that stays the same for its URL for the rest of
+     * the conversation, so `[n]` means the same source in every answer.
+     */
+    private _numberSources(results: SearchResult[]): CitedSearchResult[] {
+        return results.map((r) => {
+            this.sql`
+                insert or ignore into sage_sources (url, title, source)
+                values (${r.url}, ${r.title}, ${r.source})
+            `;
+            const [row] = this.sql<CitationSource>`select * from sage_sources where url = ${r.url}`;
+            return { id: String(row.id), ...r };
+        });
+    }
+
+    private _lookupSources(ids: string[]): CitationSource[] {
+        return ids.flatMap((id) => this.sql<CitationSource>`select * from sage_sources where id = ${Number(id)}`);
+    }
+
+    /** Returns the current messages with `update` merged into the tool part for `toolCallId`. */
+    private _withToolPartUpdate(toolCallId: string, update: Record<string, unknown>): UIMessage[] {
+        return this.messages.map((msg) => ({
+            ...msg,
+            parts: msg.parts.map((part) =>
+                "toolCallId" in part && part.toolCallId === toolCallId
+                    ? ({ ...part, ...update } as typeof part)
+                    : part
+            ),
+        }));
+    }
+
+    /**
+     * Applies the user's decision to a gated tool call: runs the handler on approval,
+     * marks the call as denied on rejection, and resumes the conversation once every
+     * approval requested in that turn has been answered.
+     */
+    private async _resolveApproval(toolCallId: string, approved: boolean) {
+        const [pending] = this.sql<PendingApproval>`
+            select * from sage_pending_approvals where tool_call_id = ${toolCallId}
+        `;
+        if (!pending) {
+            console.warn(`[Sage] No pending approval for tool call ${toolCallId}`);
+            return;
+        }
+        this.sql`delete from sage_pending_approvals where tool_call_id = ${toolCallId}`;
+
+        const approval = { id: pending.approval_id, approved };
+        let update: Record<string, unknown> = { state: "output-denied", approval };
+        if (approved) {
+            const call = parseToolCall(pending.tool_name, pending.input);
+            try {
+                const output = call.ok
+                    ? await call.tool.execute!(call.input, this._toolContext())
+                    : { error: call.error };
+                update = { state: "output-available", approval, output };
+                const { outcome, error } = toolOutcome(output);
+                resolveToolCallTrace(this.sql.bind(this), toolCallId, outcome, error);
+            } catch (err) {
+                console.error(`[Sage] Approved tool ${pending.tool_name} failed:`, err);
+                update = { state: "output-error", approval, errorText: errorMessage(err) };
+                resolveToolCallTrace(this.sql.bind(this), toolCallId, "error", errorMessage(err));
+            }
+        } else {
+            resolveToolCallTrace(this.sql.bind(this), toolCallId, "rejected");
+        }
+
+        const messages = this._withToolPartUpdate(toolCallId, update);
+
+        const [{ remaining }] = this.sql<{ remaining: number }>`
+            select count(*) as remaining from sage_pending_approvals
+        `;
+        if (remaining > 0) {
+            await this.persistMessages(messages);
+        } else {
+            await this.saveMessages(messages);
+        }
+    }
+
+    /**
+     * Leaves a client-executed tool call in `input-available` so the browser's
+     * `onToolCall` picks it up, and arms a timeout in case it never answers.
+     */
+    private async _awaitClientTool(toolCallId: string, toolName: string, pass: number) {
+        const { id } = await this.schedule(CLIENT_TOOL_TIMEOUT_SECONDS, "onClientToolTimeout", { toolCallId });
+        this.sql`
+            insert or replace into sage_pending_client_tools (tool_call_id, tool_name, pass, schedule_id, created_at)
+            values (${toolCallId}, ${toolName}, ${pass}, ${id}, ${Date.now()})
+        `;
+    }
+
+    /**
+     * Applies the browser's result for a client tool call and, when the client asks for
+     * it, resumes the pass loop where the call left it. Handled here rather than by
+     * AIChatAgent, whose continuation would start outside the turn queue. Late results
+     * for calls that already timed out are dropped.
+     */
+    private async _resolveClientToolResult(toolCallId: string, output: unknown, autoContinue: boolean) {
+        const [pending] = this.sql<PendingClientTool>`
+            select * from sage_pending_client_tools where tool_call_id = ${toolCallId}
+        `;
+        if (!pending) return;
+
+        this.sql`delete from sage_pending_client_tools where tool_call_id = ${toolCallId}`;
+        await this.cancelSchedule(pending.schedule_id);
+        resolveToolCallTrace(this.sql.bind(this), toolCallId, "ok");
+        const messages = this._withToolPartUpdate(toolCallId, { state: "output-available", output });
+        this._resumeFromPass = pending.pass + 1;
+        if (autoContinue) {
+            await this.saveMessages(messages);
+        } else {
+            await this.persistMessages(messages);
+        }
+    }
+
+    async onClientToolTimeout(data: unknown) {
+        const { toolCallId } = data as { toolCallId: string };
+        return this._enqueueTurn(async () => {
+            const [pending] = this.sql<PendingClientTool>`
+                select * from sage_pending_client_tools where tool_call_id = ${toolCallId}
+            `;
+            if (!pending) return;
+            this.sql`delete from sage_pending_client_tools where tool_call_id = ${toolCallId}`;
+
+            const errorText = `The browser did not return a result for ${pending.tool_name} within ${CLIENT_TOOL_TIMEOUT_SECONDS} seconds.`;
+            resolveToolCallTrace(this.sql.bind(this), toolCallId, "timeout", errorText);
+            const messages = this._withToolPartUpdate(toolCallId, { state: "output-error", errorText });
+            this._resumeFromPass = pending.pass + 1;
+            await this.saveMessages(messages);
+        });
+    }
+
+    private _listReminders(): Reminder[] {
+        return this.getSchedules<ReminderPayload>()
+            .filter((schedule) => schedule.callback === "onTask")
+            .sort((a, b) => a.time - b.time)
+            .map(toReminder);
+    }
+
+    /**
+     * Publishes the upcoming reminders to agent state. While a reminder is firing, its
+     * schedule row is only rewritten after `onTask` returns (one-shots deleted, cron rows
+     * moved to their next slot), so the firing schedule is corrected here.
+     */
+    private _syncReminderState(firing?: Schedule<ReminderPayload>) {
+        const upcomingReminders = this._listReminders()
+            .filter((r) => !(firing && firing.type !== "cron" && r.id === firing.id))
+            .map((r) => (firing && r.id === firing.id && r.cron ? { ...r, nextRunAt: nextCronRun(r.cron) } : r));
+        this.setState({ ...this.state, upcomingReminders });
+    }
+
+    private async _scheduleReminder(message: string, timing: ReminderTiming) {
+        let schedule: Schedule<ReminderPayload>;
+        try {
+            schedule = await this.schedule<ReminderPayload>(resolveReminderTiming(timing), "onTask", { message });
+        } catch (err) {
+            return { scheduled: false, error: err instanceof Error ? err.message : String(err) };
+        }
+        this._syncReminderState();
+        return { scheduled: true, reminder: toReminder(schedule) };
+    }
+
+    @callable()
+    async cancelReminder(id: string) {
+        const schedule = this.getSchedule<ReminderPayload>(id);
+        if (!schedule || schedule.callback !== "onTask") {
+            return { cancelled: false, error: `No reminder with ID "${id}".` };
+        }
+        await this.cancelSchedule(id);
+        this._syncReminderState();
+        return { cancelled: true, id };
+    }
+
+    /** Schedules cannot be edited in place, so an update replaces the schedule (and its ID). */
+    private async _updateReminder(id: string, changes: { message?: string } & ReminderTiming) {
+        const existing = this.getSchedule<ReminderPayload>(id);
+        if (!existing || existing.callback !== "onTask") {
+            return { updated: false, error: `No reminder with ID "${id}".` };
+        }
+
+        const hasTiming = changes.delaySeconds !== undefined || changes.at !== undefined || changes.cron !== undefined;
+        const timing: ReminderTiming = hasTiming
+            ? changes
+            : existing.type === "cron"
+                ? { cron: existing.cron }
+                : { at: new Date(existing.time * 1000).toISOString() };
+
+        const result = await this._scheduleReminder(changes.message ?? existing.payload.message, timing);
+        if (!result.scheduled) return { updated: false, error: result.error };
+
+        await this.cancelSchedule(id);
+        this._syncReminderState();
+        return { updated: true, previousId: id, reminder: result.reminder };
+    }
+
+    /**
+     * Hands a fired reminder to the user's delivery channels (webhooks, email), then, if
+     * the in-app channel is on, records it and pushes it to every connected client through
+     * agent state. It stays queued, and is replayed on the next connection, until
+     * acknowledged. A thread without an index, or whose index cannot be reached, always
+     * delivers in-app so the reminder is not lost.
+     */
+    async onTask(data: unknown, schedule?: Schedule<ReminderPayload>) {
+        const { message } = data as ReminderPayload;
+        const now = Date.now();
+        const reminderId = schedule?.id ?? "unknown";
+
+        let inApp = true;
+        const index = await this._threadIndex();
+        if (index) {
+            try {
+                const notice = { reminderId, threadId: this.name, message, firedAt: new Date(now).toISOString() };
+                ({ inApp } = await index.deliverReminder(notice));
+            } catch (err) {
+                console.error("[Sage] Reminder delivery failed:", err);
+            }
+        }
+
+        if (inApp) {
+            const online = [...this.getConnections()].length > 0;
+            this.sql`
+                insert into sage_reminder_deliveries (id, reminder_id, message, fired_at, delivered_at)
+                values (${crypto.randomUUID()}, ${reminderId}, ${message}, ${now}, ${online ? now : null})
+            `;
+            this._syncFiredReminders();
+        }
+        this._syncReminderState(schedule);
+    }
+
+    async onConnect(connection: Connection, ctx: ConnectionContext) {
+        await super.onConnect(connection, ctx);
+        const [{ undelivered }] = this.sql<{ undelivered: number }>`
+            select count(*) as undelivered from sage_reminder_deliveries
+            where delivered_at is null and acknowledged_at is null
+        `;
+        if (undelivered > 0) {
+            this.sql`
+                update sage_reminder_deliveries set delivered_at = ${Date.now()}
+                where delivered_at is null and acknowledged_at is null
+            `;
+            this._syncFiredReminders();
+        }
+    }
+
+    @callable()
+    async acknowledgeReminder(id: string) {
+        this.sql`
+            update sage_reminder_deliveries set acknowledged_at = ${Date.now()}
+            where id = ${id} and acknowledged_at is null
+        `;
+        this._syncFiredReminders();
+    }
+
+    private _syncFiredReminders() {
+        const rows = this.sql<ReminderDelivery>`
+            select * from sage_reminder_deliveries
+            where acknowledged_at is null
+            order by fired_at asc
+        `;
+        const firedReminders: FiredReminder[] = rows.map((row) => ({
+            id: row.id,
+            reminderId: row.reminder_id,
+            message: row.message,
+            firedAt: new Date(row.fired_at).toISOString(),
+            deliveredAt: row.delivered_at ? new Date(row.delivered_at).toISOString() : null,
+        }));
+        this.setState({ ...this.state, firedReminders });
+    }
+
+    /** Unacknowledged reminders that have not been mentioned to the model yet; marks them as mentioned. */
+    private _takeUnsurfacedReminders(): ReminderDelivery[] {
+        const rows = this.sql<ReminderDelivery>`
+            select * from sage_reminder_deliveries
+            where surfaced_at is null and acknowledged_at is null
+            order by fired_at asc
+        `;
+        if (rows.length > 0) {
+            this.sql`
+                update sage_reminder_deliveries set surfaced_at = ${Date.now()}
+                where surfaced_at is null and acknowledged_at is null
+            `;
+        }
+        return rows;
+    }
+
+    /**
+     * Fits the conversation into the model's context window: the system prompt and the
+     * most recent turns are sent word for word, everything older is replaced by a
+     * running summary that is extended whenever more turns fall out of the window.
+     */
+    private async _buildPrompt(systemContent: string, tools: unknown[], model: ModelInfo): Promise<WorkersAIMessage[]> {
+        const turns = splitTurns(this.messages);
+        const converted = turns.map((turn) => uiMessagesToWorkersAI(turn));
+        // Sized for the smaller of the model and its fallback, so a retry still fits.
+        const promptTokens = Math.min(
+            ...[model, getModel(model.fallback) ?? model].map((m) => m.contextTokens - m.maxOutputTokens)
+        );
+        const budget = promptTokens - SUMMARY_MAX_TOKENS - estimateTokens(systemContent) - estimateTokens(tools);
+        const firstRecent = firstRecentTurn(converted.map((t) => estimateTokens(t)), budget);
+
+        const summary = firstRecent > 0 ? await this._summarize(turns.slice(0, firstRecent).flat(), model) : null;
+        const system = summary
+            ? `${systemContent}\n\nSUMMARY OF EARLIER CONVERSATION:\n${summary}`
+            : systemContent;
+
+        return [{ role: "system", content: system }, ...converted.slice(firstRecent).flat()];
+    }
+
+    /**
+     * Returns a summary covering `older`, reusing the stored one when it is still current
+     * and folding only the newly dropped messages into it otherwise. If the stored summary
+     * no longer matches the history (messages were edited or removed) it is rebuilt.
+     */
+    private async _summarize(older: UIMessage[], model: ModelInfo): Promise<string | null> {
+        const [stored] = this.sql<ConversationSummary>`
+            select * from sage_conversation_summary where id = 1
+        `;
+        const throughId = older[older.length - 1].id;
+        if (stored?.through_message_id === throughId) return stored.summary;
+
+        const coveredUpTo = stored ? older.findIndex((m) => m.id === stored.through_message_id) : -1;
+        const previous = coveredUpTo >= 0 ? stored.summary : "";
+        const transcript = formatTranscript(uiMessagesToWorkersAI(older.slice(coveredUpTo + 1)));
+
+        try {
+            const summary = (await completeChat(this.env.AI, model.id, {
+                messages: [
+                    { role: "system", content: SUMMARY_SYSTEM_PROMPT },
+                    { role: "user", content: `Previous summary:\n${previous || "(none)"}\n\nNew transcript:\n${transcript}` },
+                ],
+                max_tokens: SUMMARY_MAX_TOKENS,
+            })).trim();
+            if (!summary) throw new Error("Empty summary");
+
+            this.sql`
+                insert or replace into sage_conversation_summary (id, summary, through_message_id, updated_at)
+                values (1, ${summary}, ${throughId}, ${Date.now()})
+            `;
+            return summary;
+        } catch (err) {
+            // Carry on with whatever summary there is; the next turn tries again.
+            console.error("[Sage] Summarisation failed:", err);
+            return previous || null;
+        }
+    }
+
+    /**
+     * Starts a streamed completion on `model`, retrying once on the model's fallback when
+     * the primary fails to respond. Tools are only sent to models that support them.
+     * Each model's own attempts are retried per `MODEL_RETRY_POLICY` first. Returns the
+     * model that answered and, after a fallback, why the primary failed. Every model that
+     * fails is reported to `onFailure`, unless the turn was stopped.
+     */
+    private async _streamModel(
+        model: ModelInfo,
+        messages: WorkersAIMessage[],
+        tools: WorkersAITool[],
+        persona: Persona,
+        onFailure: (modelId: string, startedAt: number, error: ModelError) => void,
+        signal?: AbortSignal
+    ) {
+        const run = (m: ModelInfo) => streamChat(this.env.AI, m.id, {
+            messages,
+            tools: m.supportsTools ? tools : undefined,
+            max_tokens: Math.min(persona.maxTokens, m.maxOutputTokens),
+            temperature: persona.temperature,
+        }, {
+            signal,
+            onRetry: (err, retry, delayMs) => console.warn(`[Sage] ${m.id} failed (${err.kind}), retry ${retry} in ${delayMs} ms:`, err.message),
+        });
+
+        let primaryError: ModelError;
+        const primaryStartedAt = Date.now();
+        try {
+            return { stream: await run(model), modelId: model.id };
+        } catch (err) {
+            console.error(`[Sage] Model Execution Error (${model.id}):`, err);
+            primaryError = classifyModelError(err);
+            if (!signal?.aborted) onFailure(model.id, primaryStartedAt, primaryError);
+        }
+
+        const fallback = getModel(model.fallback);
+        if (fallback && !signal?.aborted) {
+            console.warn(`[Sage] Falling back from ${model.id} to ${fallback.id}`);
+            const fallbackStartedAt = Date.now();
+            try {
+                return { stream: await run(fallback), modelId: fallback.id, fallbackFrom: `${model.id}: ${primaryError.message}` };
+            } catch (err) {
+                console.error(`[Sage] Model Execution Error (${fallback.id}):`, err);
+                const fallbackError = classifyModelError(err);
+                if (!signal?.aborted) onFailure(fallback.id, fallbackStartedAt, fallbackError);
+                throw new ModelError(`${model.id}: ${primaryError.message}; ${fallback.id}: ${fallbackError.message}`, fallbackError.kind);
+            }
+        }
+        throw new ModelError(`${model.id}: ${primaryError.message}`, primaryError.kind);
+    }
+
+    @callable()
+    async setModel(modelId: string) {
+        if (!getModel(modelId)) {
+            throw new Error(`Unknown model "${modelId}".`);
+        }
+        this.setState({ ...this.state, modelId });
+    }
+
+    @callable()
+    async setPersona(personaId: string) {
+        if (!getBuiltInPersona(personaId) && !(await (await this._threadIndex())?.getPersona(personaId))) {
+            throw new Error(`Unknown persona "${personaId}".`);
+        }
+        this.setState({ ...this.state, personaId });
+    }
 
-        const systemContent = `You are Sage AI, a high-performance Enterprise Workspace Assistant. 
-Your tone is professional, helpful, and direct. You are running on Cloudflare's edge.
-Current Date: ${new Date().toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" })}.
-${pendingReminders.length > 0 ? `\n\nREMINDERS FOR USER:\n${pendingReminders.join("\n")}` : ""}`;
+    /** The conversation's persona; unknown or deleted custom personas fall back to the default. */
+    private async _resolvePersona(): Promise<Persona> {
+        const { personaId } = this.state;
+        const builtIn = getBuiltInPersona(personaId);
+        if (builtIn) return builtIn;
+        if (personaId) {
+            try {
+                const persona = await (await this._threadIndex())?.getPersona(personaId);
+                if (persona) return persona;
+            } catch (err) {
+                console.error(`[Sage] Could not load persona ${personaId}:`, err);
+            }
+        }
+        return getBuiltInPersona(DEFAULT_PERSONA_ID)!;
+    }
 
-        if (pendingReminders.length > 0) {
-            this.setState({ ...stateObj, reminders: [] });
+    /** Keeps the locale the client sends with each chat request, for turns the agent starts itself. */
+    private _updateLocale(reported: unknown): string {
+        if (typeof reported === "string") {
+            try {
+                const [locale] = Intl.getCanonicalLocales(reported);
+                if (locale && locale !== this.state.locale) this.setState({ ...this.state, locale });
+            } catch {
+                // Not a valid BCP 47 tag; keep the previous locale.
+            }
         }
+        return this.state.locale ?? "en-US";
+    }
 
-        const historyMessages = uiMessagesToWorkersAI(this.messages);
-        const allMessages: WorkersAIMessage[] = [
-            { role: "system", content: systemContent },
-            ...historyMessages,
-        ];
+    /** The conversation as it stands, with the title the thread has in the user's index. */
+    private async _snapshot(): Promise<ConversationExport> {
+        const index = await this._threadIndex();
+        const thread = index ? await index.getThread(this.name) : null;
+        return createConversationExport(this.messages, {
+            title: thread?.title ?? DEFAULT_THREAD_TITLE,
+            modelId: this.state.modelId,
+            personaId: this.state.personaId,
+        });
+    }
+
+    /** The active branch of the conversation as a Markdown transcript or as lossless JSON that can be imported again. */
+    @callable()
+    async exportConversation(format: ExportFormat): Promise<ExportFile> {
+        return toExportFile(await this._snapshot(), format);
+    }
+
+    /** Publishes a read-only snapshot of the conversation at a link that expires after `ttlDays`. */
+    @callable()
+    async shareConversation(ttlDays = DEFAULT_SHARE_TTL_DAYS): Promise<ShareInfo> {
+        if (this.messages.length === 0) throw new Error("There is nothing to share yet.");
+        const index = await this._threadIndex();
+        if (!index) throw new Error("Only threads opened from the thread list can be shared.");
+        return index.createShare(this.name, await this._snapshot(), ttlDays);
+    }
+
+    /**
+     * Fills this new, empty thread with an imported conversation; called by the index.
+     * The model and persona carry over when they exist here.
+     */
+    async importConversation(conversation: ConversationExport) {
+        if (this.messages.length > 0) throw new Error("Conversations can only be imported into an empty thread.");
+        await this.persistMessages(conversation.messages);
+        this.sql`update sage_thread_meta set titled = 1 where id = 1`;
+        // Keep the imported citation numbers, so new results are numbered after them.
+        for (const part of conversation.messages.flatMap((m) => m.parts)) {
+            if (part.type !== "source-url" || !/^\d+$/.test(part.sourceId)) continue;
+            this.sql`
+                insert or ignore into sage_sources (id, url, title, source)
+                values (${Number(part.sourceId)}, ${part.url}, ${part.title ?? part.url}, '')
+            `;
+        }
+
+        const { modelId, personaId } = conversation;
+        const index = await this._threadIndex();
+        const knownPersona = personaId && (getBuiltInPersona(personaId) || await index?.getPersona(personaId));
+        this.setState({
+            ...this.state,
+            modelId: modelId && getModel(modelId) ? modelId : undefined,
+            personaId: knownPersona ? personaId : undefined,
+        });
+    }
+
+    /**
+     * The most recent turn traces, newest first, with this thread's totals since `since`
+     * (epoch ms). Used by the client's trace viewer and by the admin routes.
+     */
+    @callable()
+    async getTraces(limit = 20, since = 0): Promise<{ traces: TurnTrace[]; stats: TraceStats }> {
+        const sql = this.sql.bind(this);
+        return { traces: listTraces(sql, Math.min(limit, MAX_TRACES_LISTED)), stats: traceStats(sql, since) };
+    }
+
+    /** This thread's trace totals since `since` (epoch ms); the index adds them up per user. */
+    async getTraceStats(since: number): Promise<TraceStats> {
+        return traceStats(this.sql.bind(this), since);
+    }
+
+    /** Links this thread to the user's `ThreadIndexAgent`; called by the index when it creates the thread. */
+    async attachToIndex(indexName: string) {
+        this.sql`
+            insert or replace into sage_thread_meta (id, index_name, titled)
+            values (1, ${indexName}, 0)
+        `;
+    }
+
+    /**
+     * Bumps the thread's last activity in the user's index and, on the first turn, asks
+     * the model for a title. Threads not created through an index are left alone.
+     */
+    private async _reportActivity(model: ModelInfo) {
+        const [meta] = this.sql<ThreadMeta>`select * from sage_thread_meta where id = 1`;
+        if (!meta) return;
+
+        let title: string | undefined;
+        if (!meta.titled && this.messages.some((m) => m.role === "user")) {
+            const transcript = formatTranscript(uiMessagesToWorkersAI(this.messages.slice(0, 4)));
+            try {
+                title = await completeChat(this.env.AI, model.id, {
+                    messages: [
+                        { role: "system", content: TITLE_SYSTEM_PROMPT },
+                        { role: "user", content: transcript },
+                    ],
+                    max_tokens: 24,
+                });
+                this.sql`update sage_thread_meta set titled = 1 where id = 1`;
+            } catch (err) {
+                console.error("[Sage] Title generation failed:", err);
+            }
+        }
+
+        const index = await getAgentByName(this.env.ThreadIndexAgent, meta.index_name);
+        await index.recordActivity(this.name, { title });
+    }
+
+    async onChatMessage(onFinish: StreamTextOnFinishCallback<ToolSet>, options?: OnChatMessageOptions) {
+        const signal = options?.abortSignal;
+        const locale = this._updateLocale(options?.body?.locale);
+        const persona = await this._resolvePersona();
+        // Reminders are only marked as mentioned when the persona's prompt actually shows them.
+        const pendingReminders = templateUses(persona.template, "reminders")
+            ? this._takeUnsurfacedReminders()
+                .map((r) => `⏰ Reminder: ${r.message} (triggered at ${new Date(r.fired_at).toISOString()})`)
+            : [];
+        const memories = templateUses(persona.template, "memory") ? await this._relevantMemories() : [];
+
+        const { maxSteps, toolBudget } = turnLimits(persona);
+        const startPass = Math.min(this._resumeFromPass, maxSteps - 1);
+        this._resumeFromPass = 0;
+        const model = resolveModel(this.state.modelId);
+        const allowedTools = model.supportsTools ? persona.tools : [];
+        const tools = allowedTools.length > 0 ? await buildToolSchemas(allowedTools) : [];
+
+        const prompt = renderPersonaPrompt(persona.template, {
+            date: new Date().toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" }),
+            locale,
+            memory: memories.length > 0
+                ? `WHAT YOU REMEMBER ABOUT THE USER (use only where relevant):\n${memories.map((m) => `- ${m}`).join("\n")}`
+                : "",
+            reminders: pendingReminders.length > 0 ? `REMINDERS FOR USER:\n${pendingReminders.join("\n")}` : "",
+        });
+        const cites = allowedTools.includes("searchWeb") || allowedTools.includes("searchDocuments");
+        const systemContent = cites ? `${prompt}\n\n${CITATION_INSTRUCTIONS}` : prompt;
+        const allMessages = await this._buildPrompt(systemContent, tools, model);
+        const toolContext = this._toolContext();
+        // Approvals and client tool results continue the turn from the saved assistant message.
+        const lastMessage = this.messages[this.messages.length - 1];
+        const resumedMessage = lastMessage?.role === "assistant" ? lastMessage : undefined;
+        const trace = new TraceRecorder(this.sql.bind(this), {
+            modelId: model.id,
+            personaId: persona.id,
+            trigger: resumedMessage ? "resume" : "message",
+        });
 
         const stream = createUIMessageStream({
             execute: async ({ writer }) => {
+                // Ends the turn early: AIChatAgent saves what was streamed so far, tagged as interrupted.
+                const interrupt = () => {
+                    const messageMetadata: SageMessageMetadata = { interrupted: true };
+                    writer.write({ type: "message-metadata", messageMetadata });
+                    this._interruptedTurn = true;
+                    trace.finish("interrupted");
+                };
+
                 try {
                     let stepMessages = [...allMessages];
-                    const calledTools = new Set<string>();
-
-                    for (let pass = 0; pass < 3; pass++) {
-                        console.log(`[Sage] AI Pass ${pass}, History: ${stepMessages.length} msgs`);
-
-                        const aiResponse = await (this.env.AI as unknown as {
-                            run: (model: string, options: {
-                                messages: WorkersAIMessage[];
-                                tools: typeof TOOLS_SCHEMA;
-                                stream: boolean;
-                                max_tokens: number;
-                            }) => Promise<{ response?: string; tool_calls?: WorkersAIToolCall[] }>;
-                        }).run("@cf/meta/llama-3.1-8b-instruct", {
-                            messages: stepMessages,
-                            tools: TOOLS_SCHEMA,
-                            stream: false,
-                            max_tokens: 1024,
-                        }).catch(e => {
-                            console.error("[Sage] Model Execution Error:", e);
-                            throw new Error("Model failed to respond.");
+                    const resumedCalls = resumedMessage?.parts.filter(isToolUIPart) ?? [];
+                    // Calls that succeeded this turn, by tool and arguments; the model is not given them twice.
+                    const completedCalls = new Set(
+                        resumedCalls
+                            .filter((p) => p.state === "output-available" && toolOutcome(p.output).outcome === "ok")
+                            .map((p) => toolCallKey(getToolName(p), p.input))
+                    );
+                    const citedSources = new Set<number>();
+                    let toolsUsed = resumedCalls.length;
+                    let stepLimit: StepLimitNotice | undefined;
+                    let repeatedOnly = false;
+
+                    for (let pass = startPass; pass < maxSteps; pass++) {
+                        if (signal?.aborted) return interrupt();
+                        // Passes only advance after tool calls, so reaching the last one means the model was still working.
+                        if (pass === maxSteps - 1 && pass > 0 && !repeatedOnly && tools.length > 0) {
+                            stepLimit ??= { reason: "steps", limit: maxSteps };
+                        }
+                        // The last pass, and any pass after the model only repeated itself, answers without tools.
+                        const finalPass = pass === maxSteps - 1 || repeatedOnly || stepLimit !== undefined;
+                        const passTools = finalPass ? [] : tools;
+                        if (finalPass && stepLimit) stepMessages.push({ role: "system", content: STEP_LIMIT_INSTRUCTION });
+
+                        const passStartedAt = Date.now();
+                        const answer = await this._streamModel(
+                            model,
+                            stepMessages,
+                            passTools,
+                            persona,
+                            (modelId, startedAt, err) => trace.failedPass({ pass, modelId, startedAt, error: err.message }),
+                            signal
+                        );
+
+                        const textId = `msg-${Date.now()}-${pass}`;
+                        const accumulator = new ToolCallAccumulator();
+                        let response = "";
+                        let firstTokenAt: number | null = null;
+                        let usage: WorkersAIStreamChunk["usage"];
+
+                        for await (const chunk of readWorkersAIStream(answer.stream, signal)) {
+                            if (chunk.response) {
+                                if (!response) writer.write({ type: "text-start", id: textId });
+                                writer.write({ type: "text-delta", delta: chunk.response, id: textId });
+                                response += chunk.response;
+                            }
+                            if (chunk.tool_calls?.length) accumulator.add(chunk.tool_calls);
+                            if ((chunk.response || chunk.tool_calls?.length) && firstTokenAt === null) firstTokenAt = Date.now();
+                            if (chunk.usage) usage = chunk.usage;
+                        }
+                        if (response) writer.write({ type: "text-end", id: textId });
+
+                        const reported = usage?.prompt_tokens !== undefined && usage.completion_tokens !== undefined;
+                        trace.pass({
+                            pass,
+                            modelId: answer.modelId,
+                            startedAt: passStartedAt,
+                            firstTokenAt,
+                            promptTokens: reported ? usage!.prompt_tokens! : estimateTokens(stepMessages) + estimateTokens(passTools),
+                            completionTokens: reported ? usage!.completion_tokens! : estimateTokens(response) + estimateTokens(accumulator.toToolCalls()),
+                            estimatedTokens: !reported,
+                            error: answer.fallbackFrom,
                         });
+                        // Tool calls from a cut-off pass may be incomplete, so they are dropped.
+                        if (signal?.aborted) return interrupt();
+
+                        for (const source of this._lookupSources(extractCitations(response))) {
+                            if (citedSources.has(source.id)) continue;
+                            citedSources.add(source.id);
+                            if (isDocumentUrl(source.url)) {
+                                writer.write({ type: "source-document", sourceId: String(source.id), mediaType: "text/plain", title: source.title, filename: source.source });
+                            } else {
+                                writer.write({ type: "source-url", sourceId: String(source.id), url: source.url, title: source.title });
+                            }
+                        }
 
-                        const { response, tool_calls } = aiResponse;
+                        const tool_calls = accumulator.toToolCalls();
+                        if (tool_calls.length === 0 || finalPass) break;
 
-                        if (tool_calls && tool_calls.length > 0) {
-                            // Professional Tool Execution
-                            const filteredCalls = tool_calls.filter(tc => !calledTools.has(tc.function.name));
-                            if (filteredCalls.length === 0) break; // Avoid infinite recursion
+                        const requested = new Set<string>();
+                        const calls = tool_calls
+                            .map((tc) => ({ tc, toolName: tc.function.name, call: parseToolCall(tc.function.name, tc.function.arguments, allowedTools) }))
+                            .filter(({ toolName, call }) => {
+                                if (!call.ok) return true;
+                                const key = toolCallKey(toolName, call.input);
+                                if (completedCalls.has(key) || requested.has(key)) return false;
+                                requested.add(key);
+                                return true;
+                            });
+                        if (calls.length === 0) {
+                            repeatedOnly = true;
+                            continue;
+                        }
 
-                            const assistantEntry: WorkersAIMessage = { role: "assistant", content: response || "", tool_calls: filteredCalls };
-                            stepMessages.push(assistantEntry);
+                        stepMessages.push({ role: "assistant", content: response || "", tool_calls: calls.map((c) => c.tc) });
 
-                            for (const tc of filteredCalls) {
-                                calledTools.add(tc.function.name);
-                                const toolName = tc.function.name;
-                                let args: Record<string, any> = {};
-                                try { args = JSON.parse(tc.function.arguments || "{}"); } catch { }
+                        const results = new Map<string, unknown>();
+                        const serverCalls: { tc: WorkersAIToolCall; toolName: string; tool: AnyToolDefinition; input: Record<string, unknown> }[] = [];
+                        let paused = false;
+                        for (const { tc, toolName, call } of calls) {
+                            const traceCall = { pass, toolCallId: tc.id, toolName, arguments: tc.function.arguments };
 
-                                writer.write({ type: "tool-input-available", toolCallId: tc.id, toolName, input: args });
+                            if (!call.ok) {
+                                writer.write({ type: "tool-input-error", toolCallId: tc.id, toolName, input: call.input, errorText: call.error });
+                                results.set(tc.id, { error: call.error });
+                                trace.toolCall({ ...traceCall, outcome: "invalid", error: call.error });
+                                continue;
+                            }
 
-                                if (toolName === "getUserInfo") {
-                                    writer.write({ type: "tool-output-available", toolCallId: tc.id, output: { status: "fetching" } });
-                                    return; // Handled by client
-                                }
+                            writer.write({ type: "tool-input-available", toolCallId: tc.id, toolName, input: call.input });
 
-                                let output: any = { error: "Unknown tool" };
-                                if (toolName === "searchWeb") {
-                                    output = JSON.parse(await executeSearchWeb(args.query || ""));
-                                } else if (toolName === "setReminder") {
-                                    output = await this._scheduleReminder(args.message, args.delaySeconds || 60);
-                                }
+                            if (toolsUsed >= toolBudget) {
+                                const errorText = `Skipped: the limit of ${toolBudget} tool calls for this answer has been reached.`;
+                                writer.write({ type: "tool-output-error", toolCallId: tc.id, errorText });
+                                results.set(tc.id, { error: errorText });
+                                trace.toolCall({ ...traceCall, outcome: "skipped", error: errorText });
+                                stepLimit ??= { reason: "tools", limit: toolBudget };
+                                continue;
+                            }
+                            toolsUsed++;
 
-                                writer.write({ type: "tool-output-available", toolCallId: tc.id, output });
-                                stepMessages.push({ role: "tool", tool_call_id: tc.id, name: toolName, content: JSON.stringify(output) });
+                            if (signal?.aborted) {
+                                writer.write({ type: "tool-output-error", toolCallId: tc.id, errorText: INTERRUPTED_TOOL_ERROR });
+                                trace.toolCall({ ...traceCall, outcome: "interrupted" });
+                                continue;
+                            }
+
+                            if (call.tool.execution === "client") {
+                                await this._awaitClientTool(tc.id, toolName, pass);
+                                trace.toolCall({ ...traceCall, outcome: "awaiting-client" });
+                                paused = true;
+                                continue;
+                            }
+
+                            if (call.tool.execution === "approval") {
+                                const approvalId = crypto.randomUUID();
+                                this.sql`
+                                    insert or replace into sage_pending_approvals (tool_call_id, approval_id, tool_name, input, created_at)
+                                    values (${tc.id}, ${approvalId}, ${toolName}, ${JSON.stringify(call.input)}, ${Date.now()})
+                                `;
+                                writer.write({ type: "tool-approval-request", approvalId, toolCallId: tc.id });
+                                trace.toolCall({ ...traceCall, outcome: "awaiting-approval" });
+                                paused = true;
+                                continue;
                             }
-                            continue; // Next pass to see results
+
+                            serverCalls.push({ tc, toolName, tool: call.tool, input: call.input });
                         }
 
-                        if (response) {
-                            const msgId = `msg-${Date.now()}`;
-                            writer.write({ type: "text-start", id: msgId });
-                            writer.write({ type: "text-delta", delta: response, id: msgId });
-                            writer.write({ type: "text-end", id: msgId });
-                            break;
+                        // Calls from one response do not depend on each other, so they run side by side.
+                        await runToolsConcurrently(serverCalls, async ({ tc, toolName, tool, input }) => {
+                            const traceCall = { pass, toolCallId: tc.id, toolName, arguments: tc.function.arguments };
+                            const toolStartedAt = Date.now();
+                            try {
+                                const output = await tool.execute!(input, toolContext);
+                                const outcome = toolOutcome(output);
+                                trace.toolCall({ ...traceCall, startedAt: toolStartedAt, ...outcome });
+                                writer.write({ type: "tool-output-available", toolCallId: tc.id, output });
+                                results.set(tc.id, output);
+                                if (outcome.outcome === "ok") completedCalls.add(toolCallKey(toolName, input));
+                            } catch (err) {
+                                // Reported to the model like an `{ error }` result, so it can try again next pass.
+                                console.error(`[Sage] Tool ${toolName} failed:`, err);
+                                const errorText = `${toolName} failed: ${errorMessage(err)}`;
+                                trace.toolCall({ ...traceCall, startedAt: toolStartedAt, outcome: "error", error: errorText });
+                                writer.write({ type: "tool-output-error", toolCallId: tc.id, errorText });
+                                results.set(tc.id, { error: errorText });
+                            }
+                        });
+
+                        for (const { tc, toolName } of calls) {
+                            if (results.has(tc.id)) {
+                                stepMessages.push({ role: "tool", tool_call_id: tc.id, name: toolName, content: JSON.stringify(results.get(tc.id)) });
+                            }
                         }
-                        break;
+                        if (signal?.aborted) return interrupt();
+                        // Resumed by _resolveApproval or by the client's tool result
+                        if (paused) return trace.finish("paused");
                     }
+                    if (stepLimit) writer.write({ type: "data-step-limit", data: stepLimit });
+                    trace.finish("completed");
                 } catch (err) {
-                    const msgId = `error-${Date.now()}`;
-                    writer.write({ type: "text-start", id: msgId });
-                    writer.write({ type: "text-delta", delta: "I encountered a technical glitch while processing that. Please try again in a moment.", id: msgId });
-                    writer.write({ type: "text-end", id: msgId });
+                    // Stopping during a retry's backoff rejects the wait; that is an interruption, not a failure.
+                    if (signal?.aborted) return interrupt();
+                    console.error("[Sage] Turn failed:", err);
+                    trace.finish("error", errorMessage(err));
+                    writer.write({ type: "data-error", data: toTurnError(err) });
                 } finally {
-                    this._isGenerating = false;
+                    this._reportActivity(model).catch((err) => console.error("[Sage] Failed to update thread index:", err));
                 }
             },
-            onFinish: ({ messages }) => {
-                this._isGenerating = false;
-                this.saveMessages(messages);
-            }
         });
 
         return createUIMessageStreamResponse({ stream });
     }
 }
 
+/**
+ * Serves a share link without authentication. Only the stored snapshot is read,
+ * through the owner's index; the request never reaches a chat agent.
+ */
+async function handleShareRequest(request: Request, env: Env): Promise<Response> {
+    // The signature is checked first, so a made-up owner never wakes (and creates) an index.
+    const target = request.method === "GET" ? await parseSharePath(new URL(request.url).pathname, env) : null;
+    if (!target) return sharedPageResponse(null);
+    const index = await getAgentByName(env.ThreadIndexAgent, target.owner);
+    return sharedPageResponse(await index.getShare(target.id));
+}
+
+/** Lets a request through to an agent only if it is authenticated and addressed to one of the caller's own instances. */
+async function authorizeAgentRequest(request: Request, env: Env, target: AgentTarget): Promise<Response | void> {
+    try {
+        authorizeAgent(await authenticate(request, env), target);
+    } catch (err) {
+        return authErrorResponse(err, env);
+    }
+}
+
 export default {
     async fetch(request: Request, env: Env): Promise<Response> {
-        const agentResponse = await routeAgentRequest(request, env);
+        const { pathname } = new URL(request.url);
+        if (pathname.startsWith("/auth/")) {
+            return handleAuthRequest(request, env);
+        }
+        if (pathname.startsWith("/share/")) {
+            return handleShareRequest(request, env);
+        }
+        if (pathname.startsWith("/admin/")) {
+            return handleAdminRequest(request, env);
+        }
+
+        const agentResponse = await routeAgentRequest(request, env, {
+            onBeforeConnect: (req, lobby) => authorizeAgentRequest(req, env, lobby),
+            onBeforeRequest: (req, lobby) => authorizeAgentRequest(req, env, lobby),
+        });
         if (agentResponse) return agentResponse;
 
         if (env.ASSETS) {
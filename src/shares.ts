@@ -0,0 +1,166 @@
+import type { Sql } from "./rate-limit";
+import type { ShareInfo } from "./state";
+import { renderSharedPage } from "./transcript";
+import type { ConversationExport } from "./transcript";
+
+export const SHARE_TTL_DAYS = [1, 7, 30];
+export const DEFAULT_SHARE_TTL_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHARE_PATH = /^\/share\/([^/]+)\/([0-9a-f-]{36})\/([A-Za-z0-9_-]{43})$/;
+
+export type SharesEnv = {
+    /** Signs the owner into share links. Defaults to `AUTH_SECRET`; needed in `jwt` mode, which has none. */
+    SHARE_SECRET?: string;
+    AUTH_SECRET?: string;
+};
+
+type ShareRow = {
+    id: string;
+    thread_id: string;
+    title: string;
+    snapshot: string;
+    created_at: number;
+    expires_at: number;
+};
+
+export function createShareTable(sql: Sql) {
+    sql`create table if not exists sage_shares (
+        id text primary key,
+        thread_id text not null,
+        title text not null,
+        snapshot text not null,
+        created_at integer not null,
+        expires_at integer not null
+    )`;
+}
+
+function shareSecret(env: SharesEnv): string | undefined {
+    return env.SHARE_SECRET || env.AUTH_SECRET || undefined;
+}
+
+function shareKey(secret: string, usage: "sign" | "verify") {
+    return crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, [usage]);
+}
+
+function base64Url(bytes: ArrayBuffer) {
+    return btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * The path a share is served at. The owner is part of it so the Worker knows which index
+ * holds the snapshot, and signed along with the share ID so the Worker can turn away
+ * made-up owners before it wakes (and so creates) an index for them.
+ */
+export async function sharePath(env: SharesEnv, owner: string, id: string): Promise<string> {
+    const secret = shareSecret(env);
+    if (!secret) throw new Error("Share links are not configured: set SHARE_SECRET or AUTH_SECRET.");
+    const signature = await crypto.subtle.sign("HMAC", await shareKey(secret, "sign"), new TextEncoder().encode(`${owner}/${id}`));
+    return `/share/${encodeURIComponent(owner)}/${id}/${base64Url(signature)}`;
+}
+
+/**
+ * Read-only snapshots of conversations, kept in the owner's `ThreadIndexAgent`. A share
+ * is a copy taken when it is created: later messages do not appear in it, and deleting
+ * the thread does not take it down. Expired shares are removed as they are noticed.
+ */
+export class ShareStore {
+    constructor(private sql: Sql, private owner: string, private env: SharesEnv) { }
+
+    async create(threadId: string, conversation: ConversationExport, ttlDays: number): Promise<ShareInfo> {
+        if (!SHARE_TTL_DAYS.includes(ttlDays)) throw new Error(`Links can expire after ${SHARE_TTL_DAYS.join(", ")} days.`);
+        this._purgeExpired();
+
+        const id = crypto.randomUUID();
+        const now = Date.now();
+        this.sql`
+            insert into sage_shares (id, thread_id, title, snapshot, created_at, expires_at)
+            values (${id}, ${threadId}, ${conversation.title}, ${JSON.stringify(conversation)}, ${now}, ${now + ttlDays * DAY_MS})
+        `;
+        return (await this.list()).find((s) => s.id === id)!;
+    }
+
+    /**
+     * The snapshot behind a live share, as the JSON it was stored as; `expired` once its
+     * time is up, `null` if it never existed or was revoked.
+     */
+    get(id: string): { snapshot: string; expiresAt: string } | "expired" | null {
+        const [row] = this.sql<ShareRow>`select * from sage_shares where id = ${id}`;
+        if (!row) return null;
+        if (row.expires_at <= Date.now()) {
+            this.sql`delete from sage_shares where id = ${id}`;
+            return "expired";
+        }
+        return { snapshot: row.snapshot, expiresAt: new Date(row.expires_at).toISOString() };
+    }
+
+    revoke(id: string): boolean {
+        const [row] = this.sql<ShareRow>`select * from sage_shares where id = ${id}`;
+        if (!row) return false;
+        this.sql`delete from sage_shares where id = ${id}`;
+        return true;
+    }
+
+    /** Live shares, newest first. */
+    async list(): Promise<ShareInfo[]> {
+        const rows = this.sql<Omit<ShareRow, "snapshot">>`
+            select id, thread_id, title, created_at, expires_at from sage_shares
+            where expires_at > ${Date.now()} order by created_at desc
+        `;
+        return Promise.all(rows.map(async (row) => ({
+            id: row.id,
+            threadId: row.thread_id,
+            title: row.title,
+            path: await sharePath(this.env, this.owner, row.id),
+            createdAt: new Date(row.created_at).toISOString(),
+            expiresAt: new Date(row.expires_at).toISOString(),
+        })));
+    }
+
+    private _purgeExpired() {
+        this.sql`delete from sage_shares where expires_at <= ${Date.now()}`;
+    }
+}
+
+const SHARED_PAGE_HEADERS = {
+    "Content-Type": "text/html; charset=utf-8",
+    // The page is static HTML with inline styles; nothing else may load or run.
+    "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; base-uri 'none'; form-action 'none'; frame-ancestors 'none'",
+    "Referrer-Policy": "no-referrer",
+    "X-Robots-Tag": "noindex",
+    // Revoking a link must take effect immediately.
+    "Cache-Control": "no-store",
+};
+
+function sharedPageError(status: 404 | 410, message: string) {
+    return new Response(
+        `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Sage AI</title></head><body><p>${message}</p></body></html>`,
+        { status, headers: SHARED_PAGE_HEADERS }
+    );
+}
+
+/**
+ * Parses a share link's path into the owner whose index holds it and the share ID. Paths
+ * whose signature does not match, and every path while no secret is set, give null.
+ */
+export async function parseSharePath(pathname: string, env: SharesEnv): Promise<{ owner: string; id: string } | null> {
+    const match = SHARE_PATH.exec(pathname);
+    const secret = shareSecret(env);
+    if (!match || !secret) return null;
+    let owner: string;
+    try {
+        owner = decodeURIComponent(match[1]);
+    } catch {
+        return null;
+    }
+    const signature = Uint8Array.from(atob(match[3].replace(/-/g, "+").replace(/_/g, "/") + "="), (c) => c.charCodeAt(0));
+    const valid = await crypto.subtle.verify("HMAC", await shareKey(secret, "verify"), signature, new TextEncoder().encode(`${owner}/${match[2]}`));
+    return valid ? { owner, id: match[2] } : null;
+}
+
+/** The response for a share link, given what the owner's index returned for it. */
+export function sharedPageResponse(share: ReturnType<ShareStore["get"]>): Response {
+    if (share === "expired") return sharedPageError(410, "This link has expired.");
+    if (!share) return sharedPageError(404, "This link does not exist or has been revoked.");
+    const conversation = JSON.parse(share.snapshot) as ConversationExport;
+    return new Response(renderSharedPage(conversation, share.expiresAt), { headers: SHARED_PAGE_HEADERS });
+}
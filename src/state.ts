@@ -0,0 +1,159 @@
+import type { Persona } from "./personas";
+import type { FiredReminder, Reminder } from "./reminders";
+
+/** Agent state, synced to every connected client through `useAgent`. */
+export type SageState = {
+    /** Fired reminders the user has not acknowledged yet, oldest first. */
+    firedReminders?: FiredReminder[];
+    /** Upcoming reminder schedules, rendered in the sidebar. */
+    upcomingReminders?: Reminder[];
+    /** Catalogue ID of the model this conversation runs on; the default model when unset. */
+    modelId?: string;
+    /** Persona this conversation runs as: a built-in ID or one of the user's custom personas. The default persona when unset. */
+    personaId?: string;
+    /** The user's locale as last reported by the client, e.g. `en-GB`. */
+    locale?: string;
+    /** Messages on the active path that have alternative versions, keyed by message ID. */
+    branches?: Record<string, MessageBranch>;
+    /** Documents uploaded to this conversation, newest first. */
+    documents?: DocumentInfo[];
+    /**
+     * True while a turn the agent started itself is streaming: a resume after an approval
+     * or a browser tool result, a regenerate or an edit. `stopTurn` stops it.
+     */
+    serverTurn?: boolean;
+};
+
+/** Where a message sits among the versions that answer (or replace) the same earlier message. */
+export type MessageBranch = {
+    /** Position of this message in `siblingIds`. */
+    index: number;
+    /** Every version, oldest first. */
+    siblingIds: string[];
+};
+
+/** Metadata Sage attaches to assistant messages. */
+export type SageMessageMetadata = {
+    /** The user stopped the turn before it finished; the message holds what was generated until then. */
+    interrupted?: boolean;
+};
+
+/**
+ * Why a turn failed: `rate_limited`, `timeout` and `unavailable` are transient and were
+ * already retried; `invalid_request` means the model rejected the conversation itself.
+ */
+export type TurnErrorKind = "rate_limited" | "timeout" | "unavailable" | "invalid_request" | "internal";
+
+/** Payload of the `data-error` part that ends an assistant message when its turn fails. */
+export type TurnError = {
+    kind: TurnErrorKind;
+    /** Shown to the user. */
+    message: string;
+    /** Whether answering again has a reasonable chance of working. */
+    retryable: boolean;
+};
+
+/** Payload of the `data-step-limit` part added when Sage stopped calling tools because a per-turn limit ran out. */
+export type StepLimitNotice = {
+    /** `steps`: every model pass was used; `tools`: the tool call budget was spent. */
+    reason: "steps" | "tools";
+    limit: number;
+};
+
+/** A conversation listed in the user's thread index. Each one is its own `ChatAgent` instance. */
+export type Thread = {
+    id: string;
+    title: string;
+    createdAt: string;
+    lastActivityAt: string;
+    archived: boolean;
+};
+
+/** State of the per-user `ThreadIndexAgent`. */
+export type ThreadIndexState = {
+    /** Every thread, most recently active first. */
+    threads: Thread[];
+    /** Documents uploaded to the user's workspace, searchable from every thread, newest first. */
+    documents?: DocumentInfo[];
+    /** Facts Sage has remembered about the user, newest first. */
+    memories?: MemoryInfo[];
+    /** The user's custom personas; built-in ones are not listed here. */
+    personas?: Persona[];
+    /** Share links that have not expired, newest first. */
+    shares?: ShareInfo[];
+    /** Where fired reminders are sent, the built-in in-app channel first. */
+    deliveryChannels?: DeliveryChannel[];
+    /** The latest reminder deliveries across all channels, newest first. */
+    deliveryLog?: DeliveryLogEntry[];
+};
+
+/** `in-app` is built in: it can be turned off but not deleted or added again. */
+export type DeliveryChannelKind = "in-app" | "webhook" | "email";
+
+/** A place fired reminders are sent to. Webhook secrets are never published in state. */
+export type DeliveryChannel = {
+    id: string;
+    kind: DeliveryChannelKind;
+    name: string;
+    /** The webhook URL or email address; empty for in-app. */
+    target: string;
+    enabled: boolean;
+    /** False for an email address whose confirmation code has not come back yet; such a channel stays off. */
+    confirmed: boolean;
+    createdAt: string;
+};
+
+/** `pending` deliveries failed at least once and have another attempt scheduled. */
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+/** One reminder sent to one channel. */
+export type DeliveryLogEntry = {
+    id: string;
+    channelId: string;
+    /** The channel's name when the reminder fired; the channel may since have been renamed or deleted. */
+    channelName: string;
+    kind: DeliveryChannelKind;
+    reminderId: string;
+    message: string;
+    status: DeliveryStatus;
+    attempts: number;
+    /** Why the last attempt failed. */
+    error: string | null;
+    createdAt: string;
+    nextAttemptAt: string | null;
+    deliveredAt: string | null;
+};
+
+/** A read-only snapshot of a conversation, served at `path` until it expires or is revoked. */
+export type ShareInfo = {
+    id: string;
+    threadId: string;
+    /** The thread's title when the snapshot was taken. */
+    title: string;
+    path: string;
+    createdAt: string;
+    expiresAt: string;
+};
+
+/** A fact Sage keeps about the user across conversations. */
+export type MemoryInfo = {
+    id: string;
+    fact: string;
+    /** The thread it was learned in. */
+    threadId: string | null;
+    createdAt: string;
+    updatedAt: string;
+};
+
+/** An uploaded document, as listed to the client. */
+export type DocumentInfo = {
+    id: string;
+    name: string;
+    kind: DocumentKind;
+    chars: number;
+    chunks: number;
+    uploadedAt: string;
+};
+
+/** `pdf` marks text that was extracted from a PDF before upload. */
+export type DocumentKind = "text" | "markdown" | "pdf";
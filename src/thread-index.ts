@@ -0,0 +1,474 @@
+import { Agent, callable, getAgentByName } from "agents";
+import type { AgentContext } from "agents";
+import { threadInstanceName } from "./auth";
+import {
+    createDeliveryTables,
+    createEmailSender,
+    deliver,
+    DeliveryError,
+    DeliveryStore,
+    nextDeliveryDelayMs,
+    sendConfirmation,
+} from "./delivery";
+import type { DeliveryChannelInput, ReminderNotice } from "./delivery";
+import { createDocumentTables, createEmbedder, DocumentStore } from "./documents";
+import type { DocumentHit } from "./documents";
+import { createMemoryTable, MemoryStore } from "./memory";
+import { getBuiltInPersona, validatePersona } from "./personas";
+import type { Persona } from "./personas";
+import { createRateLimitTable, returnToken, takeToken } from "./rate-limit";
+import { createShareTable, ShareStore } from "./shares";
+import type { RateLimitResult, RateLimitRule } from "./rate-limit";
+import type { Env } from "./server";
+import type { DeliveryChannel, DocumentInfo, DocumentKind, MemoryInfo, ShareInfo, Thread, ThreadIndexState } from "./state";
+import { mergeTraceStats } from "./traces";
+import type { TraceStats } from "./traces";
+import { parseConversationExport } from "./transcript";
+import type { ConversationExport } from "./transcript";
+
+export const DEFAULT_THREAD_TITLE = "New conversation";
+const MAX_TITLE_LENGTH = 80;
+/** Per-user limit across all threads: bursts of 20 messages, then one every 3 seconds. */
+const USER_RATE_LIMIT: RateLimitRule = { capacity: 20, refillPerSecond: 1 / 3 };
+/** Test sends and confirmation emails, which go wherever the user says: five back to back, then one a minute. */
+const DELIVERY_SEND_RATE_LIMIT: RateLimitRule = { capacity: 5, refillPerSecond: 1 / 60 };
+
+export const TITLE_SYSTEM_PROMPT = `Write a short title (at most six words) for the conversation below.
+Reply with the title only: no quotes, no trailing punctuation.`;
+
+type ThreadRow = {
+    id: string;
+    title: string;
+    /** `default` until the model names the thread (`auto`) or the user renames it (`user`). */
+    title_source: "default" | "auto" | "user";
+    created_at: number;
+    last_activity_at: number;
+    archived: number;
+};
+
+function cleanTitle(title: string) {
+    return title.replace(/\s+/g, " ").trim().replace(/^["'“”]+|["'“”.]+$/g, "").slice(0, MAX_TITLE_LENGTH);
+}
+
+function toThread(row: ThreadRow): Thread {
+    return {
+        id: row.id,
+        title: row.title,
+        createdAt: new Date(row.created_at).toISOString(),
+        lastActivityAt: new Date(row.last_activity_at).toISOString(),
+        archived: row.archived === 1,
+    };
+}
+
+/**
+ * One instance per user, named by user ID. Keeps the list of that user's threads; the
+ * threads themselves live in `ChatAgent` instances named `<userId>:<threadId>`.
+ */
+export class ThreadIndexAgent extends Agent<Env, ThreadIndexState> {
+    initialState: ThreadIndexState = { threads: [] };
+
+    constructor(ctx: AgentContext, env: Env) {
+        super(ctx, env);
+        this.sql`create table if not exists sage_threads (
+            id text primary key,
+            title text not null,
+            title_source text not null,
+            created_at integer not null,
+            last_activity_at integer not null,
+            archived integer not null default 0
+        )`;
+        createRateLimitTable(this.sql.bind(this));
+        createDocumentTables(this.sql.bind(this));
+        createMemoryTable(this.sql.bind(this));
+        this.sql`create table if not exists sage_personas (
+            id text primary key,
+            definition text not null,
+            updated_at integer not null
+        )`;
+        createShareTable(this.sql.bind(this));
+        createDeliveryTables(this.sql.bind(this));
+    }
+
+    /** Makes the agent's own outbound requests, such as webhook deliveries; the test harness swaps in a fake. */
+    protected fetcher: typeof fetch = (input, init) => fetch(input, init);
+
+    async onStart() {
+        this._syncDeliveries();
+    }
+
+    private _getThread(id: string): ThreadRow {
+        const [row] = this.sql<ThreadRow>`select * from sage_threads where id = ${id}`;
+        if (!row) throw new Error(`No thread with ID "${id}".`);
+        return row;
+    }
+
+    private _syncThreads() {
+        const rows = this.sql<ThreadRow>`select * from sage_threads order by last_activity_at desc`;
+        this.setState({ ...this.state, threads: rows.map(toThread) });
+    }
+
+    /** Called by a thread's `ChatAgent` to title its exports. */
+    async getThread(id: string): Promise<Thread | null> {
+        const [row] = this.sql<ThreadRow>`select * from sage_threads where id = ${id}`;
+        return row ? toThread(row) : null;
+    }
+
+    @callable()
+    async createThread(): Promise<Thread> {
+        const id = threadInstanceName(this.name, crypto.randomUUID());
+        const now = Date.now();
+        const chat = await getAgentByName(this.env.ChatAgent, id);
+        await chat.attachToIndex(this.name);
+
+        this.sql`
+            insert into sage_threads (id, title, title_source, created_at, last_activity_at)
+            values (${id}, ${DEFAULT_THREAD_TITLE}, 'default', ${now}, ${now})
+        `;
+        this._syncThreads();
+        return this.state.threads.find((t) => t.id === id)!;
+    }
+
+    @callable()
+    async renameThread(id: string, title: string) {
+        this._getThread(id);
+        const cleaned = cleanTitle(title);
+        if (!cleaned) throw new Error("Thread title cannot be empty.");
+        this.sql`update sage_threads set title = ${cleaned}, title_source = 'user' where id = ${id}`;
+        this._syncThreads();
+    }
+
+    @callable()
+    async archiveThread(id: string, archived = true) {
+        this._getThread(id);
+        this.sql`update sage_threads set archived = ${archived ? 1 : 0} where id = ${id}`;
+        this._syncThreads();
+    }
+
+    /** Creates a thread holding the conversation in a JSON export. */
+    @callable()
+    async importThread(json: string): Promise<Thread> {
+        const conversation = await parseConversationExport(json);
+        const thread = await this.createThread();
+        try {
+            const chat = await getAgentByName(this.env.ChatAgent, thread.id);
+            await chat.importConversation(conversation);
+        } catch (err) {
+            await this.deleteThread(thread.id);
+            throw err;
+        }
+
+        const title = cleanTitle(conversation.title) || DEFAULT_THREAD_TITLE;
+        this.sql`update sage_threads set title = ${title}, title_source = 'user' where id = ${thread.id}`;
+        this._syncThreads();
+        return this.state.threads.find((t) => t.id === thread.id)!;
+    }
+
+    /** Removes the thread from the index and wipes its `ChatAgent` storage. Share links to it stay up until they expire. */
+    @callable()
+    async deleteThread(id: string) {
+        this._getThread(id);
+        const chat = await getAgentByName(this.env.ChatAgent, id);
+        await chat.destroy();
+        this.sql`delete from sage_threads where id = ${id}`;
+        this._syncThreads();
+    }
+
+    private _documents() {
+        return new DocumentStore(this.sql.bind(this), createEmbedder(this.env.AI, this.env));
+    }
+
+    /** Adds a document to the workspace, where every thread's `searchDocuments` can find it. */
+    @callable()
+    async uploadDocument(name: string, kind: DocumentKind, text: string): Promise<DocumentInfo> {
+        const document = await this._documents().add(name, kind, text);
+        this.setState({ ...this.state, documents: this._documents().list() });
+        return document;
+    }
+
+    @callable()
+    async deleteDocument(id: string) {
+        if (!this._documents().remove(id)) throw new Error(`No document with ID "${id}".`);
+        this.setState({ ...this.state, documents: this._documents().list() });
+    }
+
+    /** Called by a thread's `ChatAgent` when the model searches the user's documents. */
+    async searchDocuments(query: string, limit: number): Promise<DocumentHit[]> {
+        return this._documents().search(query, limit);
+    }
+
+    private _memory() {
+        return new MemoryStore(this.sql.bind(this), createEmbedder(this.env.AI, this.env));
+    }
+
+    private _syncMemories() {
+        this.setState({ ...this.state, memories: this._memory().list() });
+    }
+
+    /** Called by a thread's `ChatAgent` when the model remembers a fact about the user. */
+    async rememberFact(fact: string, threadId: string) {
+        const result = await this._memory().remember(fact, threadId);
+        this._syncMemories();
+        return result;
+    }
+
+    /**
+     * Called by a thread's `ChatAgent`, both for the `recallFacts` tool and to pick the
+     * memories worth putting in the system prompt. Without a query, the most recent facts.
+     */
+    async recallFacts(query: string | undefined, limit: number, minScore = 0): Promise<MemoryInfo[]> {
+        if (!query?.trim()) return this._memory().list().slice(0, limit);
+        return this._memory().recall(query, limit, minScore);
+    }
+
+    /** Used by the settings panel and by the model's `forgetFact` tool. */
+    @callable()
+    async forgetMemory(id: string) {
+        if (!this._memory().forget(id)) throw new Error(`No memory with ID "${id}".`);
+        this._syncMemories();
+    }
+
+    @callable()
+    async forgetAllMemories() {
+        this._memory().forgetAll();
+        this._syncMemories();
+    }
+
+    private _syncPersonas() {
+        const rows = this.sql<{ definition: string }>`select definition from sage_personas order by updated_at desc`;
+        this.setState({ ...this.state, personas: rows.map((row) => JSON.parse(row.definition) as Persona) });
+    }
+
+    /** Creates a custom persona (when `persona.id` is empty) or replaces one. Built-in personas cannot be overwritten. */
+    @callable()
+    async savePersona(persona: Omit<Persona, "builtIn">): Promise<Persona> {
+        if (getBuiltInPersona(persona.id)) throw new Error("Built-in personas cannot be edited. Duplicate it instead.");
+        const saved = validatePersona({ ...persona, id: persona.id || crypto.randomUUID() });
+        this.sql`
+            insert or replace into sage_personas (id, definition, updated_at)
+            values (${saved.id}, ${JSON.stringify(saved)}, ${Date.now()})
+        `;
+        this._syncPersonas();
+        return saved;
+    }
+
+    /** Threads still set to a deleted persona fall back to the default one. */
+    @callable()
+    async deletePersona(id: string) {
+        if (!(await this.getPersona(id))) throw new Error(`No custom persona with ID "${id}".`);
+        this.sql`delete from sage_personas where id = ${id}`;
+        this._syncPersonas();
+    }
+
+    /** Called by a thread's `ChatAgent` to resolve a custom persona. */
+    async getPersona(id: string): Promise<Persona | null> {
+        const [row] = this.sql<{ definition: string }>`select definition from sage_personas where id = ${id}`;
+        return row ? JSON.parse(row.definition) as Persona : null;
+    }
+
+    private _shares() {
+        return new ShareStore(this.sql.bind(this), this.name, this.env);
+    }
+
+    private async _syncShares() {
+        this.setState({ ...this.state, shares: await this._shares().list() });
+    }
+
+    /** Called by a thread's `ChatAgent` with a snapshot of its conversation. */
+    async createShare(threadId: string, conversation: ConversationExport, ttlDays: number): Promise<ShareInfo> {
+        this._getThread(threadId);
+        const share = await this._shares().create(threadId, conversation, ttlDays);
+        await this._syncShares();
+        return share;
+    }
+
+    @callable()
+    async revokeShare(id: string) {
+        if (!this._shares().revoke(id)) throw new Error(`No share link with ID "${id}".`);
+        await this._syncShares();
+    }
+
+    /** Called by the Worker to serve a share link. */
+    async getShare(id: string) {
+        return this._shares().get(id);
+    }
+
+    private _deliveries() {
+        return new DeliveryStore(this.sql.bind(this));
+    }
+
+    private _syncDeliveries() {
+        const deliveries = this._deliveries();
+        this.setState({ ...this.state, deliveryChannels: deliveries.channels(), deliveryLog: deliveries.log() });
+    }
+
+    /**
+     * Creates a channel (when `input.id` is empty) or updates one. A new webhook's signing secret
+     * is only returned here. A new or changed email address is sent a code and stays off until
+     * `confirmDeliveryChannel` gets it back.
+     */
+    @callable()
+    async saveDeliveryChannel(input: DeliveryChannelInput): Promise<{ channel: DeliveryChannel; secret?: string }> {
+        if (input.kind === "email") createEmailSender(this.env, this.fetcher);
+        const deliveries = this._deliveries();
+        // The code must be sendable before the channel is saved, or it would wait for a code never sent.
+        const confirms = deliveries.confirms(input);
+        if (confirms) this._takeDeliverySendToken();
+        let result: ReturnType<DeliveryStore["save"]>;
+        try {
+            result = deliveries.save(input);
+        } catch (err) {
+            if (confirms) returnToken(this.sql.bind(this), "delivery-send", DELIVERY_SEND_RATE_LIMIT);
+            throw err;
+        }
+        const { confirmationCode, ...saved } = result;
+        this._syncDeliveries();
+        if (confirmationCode) await sendConfirmation(deliveries.channel(saved.channel.id)!, confirmationCode, this.env, this.fetcher);
+        return saved;
+    }
+
+    @callable()
+    async confirmDeliveryChannel(id: string, code: string): Promise<DeliveryChannel> {
+        const channel = this._deliveries().confirm(id, code);
+        this._syncDeliveries();
+        return channel;
+    }
+
+    /** Sends an unconfirmed email channel a new code; the old one stops working. */
+    @callable()
+    async resendDeliveryConfirmation(id: string) {
+        const deliveries = this._deliveries();
+        this._takeDeliverySendToken();
+        let code: string;
+        try {
+            code = deliveries.renewConfirmation(id);
+        } catch (err) {
+            returnToken(this.sql.bind(this), "delivery-send", DELIVERY_SEND_RATE_LIMIT);
+            throw err;
+        }
+        this._syncDeliveries();
+        await sendConfirmation(deliveries.channel(id)!, code, this.env, this.fetcher);
+    }
+
+    private _takeDeliverySendToken() {
+        const limit = takeToken(this.sql.bind(this), "delivery-send", DELIVERY_SEND_RATE_LIMIT);
+        if (!limit.allowed) {
+            throw new Error(`Too many test and confirmation sends. Try again in ${limit.retryAfterSeconds} seconds.`);
+        }
+    }
+
+    @callable()
+    async deleteDeliveryChannel(id: string) {
+        if (!this._deliveries().remove(id)) throw new Error(`No delivery channel with ID "${id}".`);
+        this._syncDeliveries();
+    }
+
+    /** Sends a sample reminder to one confirmed channel right away, without retries, and throws if it fails. */
+    @callable()
+    async testDeliveryChannel(id: string) {
+        const channel = this._deliveries().channel(id);
+        if (!channel) throw new Error(`No delivery channel with ID "${id}".`);
+        if (channel.kind === "in-app") return;
+        if (channel.confirmed !== 1) throw new Error("Confirm this email address before sending to it.");
+        this._takeDeliverySendToken();
+        const notice: ReminderNotice = {
+            reminderId: "test",
+            threadId: "",
+            threadTitle: null,
+            message: "This is a test reminder from Sage.",
+            firedAt: new Date().toISOString(),
+        };
+        await deliver(channel, notice, this.env, this.fetcher);
+    }
+
+    /**
+     * Called by a thread's `ChatAgent` when a reminder fires. Logs a delivery for every
+     * enabled channel and makes the first attempt at each webhook and email; failures
+     * that may pass are retried on `DELIVERY_RETRY_POLICY`. Returns whether the thread
+     * should show the reminder in the app itself.
+     */
+    async deliverReminder(notice: Omit<ReminderNotice, "threadTitle">): Promise<{ inApp: boolean }> {
+        const [thread] = this.sql<Pick<ThreadRow, "title">>`select title from sage_threads where id = ${notice.threadId}`;
+        const full: ReminderNotice = { ...notice, threadTitle: thread?.title ?? null };
+        const deliveries = this._deliveries();
+        const channels = deliveries.enabledChannels();
+
+        let inApp = false;
+        const attempts: Promise<void>[] = [];
+        for (const channel of channels) {
+            const logId = deliveries.begin(channel, full);
+            if (channel.kind === "in-app") {
+                deliveries.recordAttempt(logId, {});
+                inApp = true;
+            } else {
+                attempts.push(this._attemptDelivery(logId));
+            }
+        }
+        this._syncDeliveries();
+        await Promise.all(attempts);
+        return { inApp };
+    }
+
+    /** Scheduled by a failed attempt that may pass if tried again. */
+    async onDeliveryRetry(data: { logId: string }) {
+        await this._attemptDelivery(data.logId);
+    }
+
+    private async _attemptDelivery(logId: string) {
+        const deliveries = this._deliveries();
+        const pending = deliveries.pending(logId);
+        if (!pending) return;
+        const channel = deliveries.channel(pending.channelId);
+        if (!channel) {
+            deliveries.recordAttempt(logId, { error: "The channel was deleted." });
+            this._syncDeliveries();
+            return;
+        }
+
+        try {
+            await deliver(channel, pending.notice, this.env, this.fetcher);
+            deliveries.recordAttempt(logId, {});
+        } catch (err) {
+            const error = err instanceof Error ? err.message : String(err);
+            const delayMs = err instanceof DeliveryError && err.retryable ? nextDeliveryDelayMs(pending.attempts + 1) : null;
+            if (delayMs === null) {
+                deliveries.recordAttempt(logId, { error });
+            } else {
+                deliveries.recordAttempt(logId, { error, nextAttemptAt: Date.now() + delayMs });
+                await this.schedule(Math.ceil(delayMs / 1000), "onDeliveryRetry", { logId });
+            }
+        }
+        this._syncDeliveries();
+    }
+
+    /**
+     * Called by the Worker's admin routes: trace totals since `since` (epoch ms) across
+     * the user's threads. Threads with no activity in that window are not woken.
+     */
+    async traceStats(since: number): Promise<TraceStats> {
+        const rows = this.sql<Pick<ThreadRow, "id">>`select id from sage_threads where last_activity_at >= ${since}`;
+        const parts = await Promise.all(rows.map(async ({ id }) => {
+            const chat = await getAgentByName(this.env.ChatAgent, id);
+            return chat.getTraceStats(since);
+        }));
+        return mergeTraceStats(since, parts);
+    }
+
+    /** Called by a thread's `ChatAgent` before it accepts a chat message. */
+    async takeChatToken(): Promise<RateLimitResult> {
+        return takeToken(this.sql.bind(this), "user", USER_RATE_LIMIT);
+    }
+
+    /**
+     * Called by a thread's `ChatAgent` after every turn. A generated title only replaces
+     * the placeholder or an earlier generated title, never one the user chose.
+     */
+    async recordActivity(id: string, update: { title?: string } = {}) {
+        const row = this._getThread(id);
+        const title = update.title ? cleanTitle(update.title) : "";
+        if (title && row.title_source !== "user") {
+            this.sql`update sage_threads set title = ${title}, title_source = 'auto' where id = ${id}`;
+        }
+        this.sql`update sage_threads set last_activity_at = ${Date.now()} where id = ${id}`;
+        this._syncThreads();
+    }
+}
@@ -0,0 +1,242 @@
+import { zodSchema } from "ai";
+import type { JSONSchema7 } from "ai";
+import { z } from "zod";
+import type { Reminder, ReminderTiming } from "./reminders";
+
+/**
+ * Where a tool call is resolved:
+ * - `server`: executed inside the agent as soon as the model asks for it.
+ * - `client`: forwarded to the browser, which answers through `addToolOutput`.
+ * - `approval`: executed on the server, but only once the user has approved it.
+ */
+export type ToolExecution = "server" | "client" | "approval";
+
+/** Capabilities the agent exposes to tool handlers. */
+export interface ToolContext {
+    searchWeb(query: string): Promise<unknown>;
+    searchDocuments(query: string): Promise<unknown>;
+    rememberFact(fact: string): Promise<unknown>;
+    recallFacts(query?: string): Promise<unknown>;
+    forgetFact(id: string): Promise<unknown>;
+    scheduleReminder(message: string, timing: ReminderTiming): Promise<unknown>;
+    listReminders(): Reminder[];
+    cancelReminder(id: string): Promise<unknown>;
+    updateReminder(id: string, changes: { message?: string } & ReminderTiming): Promise<unknown>;
+}
+
+export type ToolDefinition<Input extends z.ZodTypeAny = z.ZodTypeAny> = {
+    description: string;
+    input: Input;
+    execution: ToolExecution;
+    ui: { label: string; status: string };
+    /** Calls of this tool that may run at once when the model asks for several together. Defaults to `DEFAULT_TOOL_CONCURRENCY`. */
+    concurrency?: number;
+    execute?: (input: z.infer<Input>, ctx: ToolContext) => Promise<unknown>;
+};
+
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+/** A registry entry of any input schema; `execute` takes the input after `input` has parsed it. */
+export type AnyToolDefinition = ToolDefinition<z.ZodTypeAny>;
+
+export type WorkersAITool = {
+    type: "function";
+    function: { name: string; description: string; parameters: JSONSchema7 };
+};
+
+const reminderTiming = {
+    delaySeconds: z.number().positive().optional().describe("Seconds from now to trigger"),
+    at: z.string().datetime({ offset: true }).optional().describe("Absolute ISO 8601 time to trigger, e.g. 2026-01-31T09:00:00Z"),
+    cron: z.string().optional().describe("Cron expression (UTC) for a recurring reminder, e.g. \"0 9 * * 1-5\""),
+};
+
+function countTimings(input: ReminderTiming) {
+    return [input.delaySeconds, input.at, input.cron].filter((v) => v !== undefined).length;
+}
+
+function defineTool<Input extends z.ZodTypeAny>(tool: ToolDefinition<Input>) {
+    return tool;
+}
+
+export const TOOLS = {
+    searchWeb: defineTool({
+        description: "Search the web for current information on any topic.",
+        input: z.object({
+            query: z.string().min(1).describe("The search query"),
+        }),
+        execution: "server",
+        ui: { label: "🔍 Web Search", status: "Querying global intelligence..." },
+        concurrency: 2,
+        execute: ({ query }, ctx) => ctx.searchWeb(query),
+    }),
+    searchDocuments: defineTool({
+        description: "Search the documents the user uploaded to this conversation or to their workspace. Use it for questions about their own files, notes or policies.",
+        input: z.object({
+            query: z.string().min(1).describe("What to look for in the documents"),
+        }),
+        execution: "server",
+        ui: { label: "📄 Document Search", status: "Reading workspace files..." },
+        execute: ({ query }, ctx) => ctx.searchDocuments(query),
+    }),
+    rememberFact: defineTool({
+        description: "Remember a lasting fact about the user (preferences, role, projects, people they work with) for all future conversations. Store one short, self-contained fact per call. Never store passwords or other secrets.",
+        input: z.object({
+            fact: z.string().min(1).describe("The fact in the third person, e.g. \"Prefers answers in German\""),
+        }),
+        execution: "server",
+        ui: { label: "🧠 Remember", status: "Saving to long-term memory..." },
+        // Facts are deduplicated against the ones already stored, so saves must not overlap.
+        concurrency: 1,
+        execute: ({ fact }, ctx) => ctx.rememberFact(fact),
+    }),
+    recallFacts: defineTool({
+        description: "Look up what you remember about the user: the facts most relevant to the query, or the most recent ones without a query, with their IDs.",
+        input: z.object({
+            query: z.string().optional().describe("What to look for"),
+        }),
+        execution: "server",
+        ui: { label: "🧠 Recall", status: "Searching long-term memory..." },
+        execute: ({ query }, ctx) => ctx.recallFacts(query),
+    }),
+    forgetFact: defineTool({
+        description: "Forget a remembered fact by ID, when the user asks you to or it is no longer true. Call recallFacts first to find the ID.",
+        input: z.object({
+            id: z.string().min(1).describe("The memory ID"),
+        }),
+        execution: "server",
+        ui: { label: "🧠 Forget", status: "Updating long-term memory..." },
+        concurrency: 1,
+        execute: ({ id }, ctx) => ctx.forgetFact(id),
+    }),
+    getUserInfo: defineTool({
+        description: "Get the user's browser timezone, locale, and local time. Runs in the user's browser.",
+        input: z.object({}),
+        execution: "client",
+        ui: { label: "🌐 Browser Info", status: "Synchronizing environment..." },
+    }),
+    setReminder: defineTool({
+        description: "Schedule a reminder for the user, either once (delaySeconds or at) or recurring (cron). Always requires user approval first.",
+        input: z.object({
+            message: z.string().min(1).describe("The reminder message"),
+            ...reminderTiming,
+        }).refine((input) => countTimings(input) === 1, {
+            message: "Provide exactly one of delaySeconds, at or cron.",
+        }),
+        execution: "approval",
+        ui: { label: "⏰ Set Reminder", status: "Scheduling system event..." },
+        execute: ({ message, ...timing }, ctx) => ctx.scheduleReminder(message, timing),
+    }),
+    listReminders: defineTool({
+        description: "List the user's upcoming reminders with their IDs, next trigger time and recurrence.",
+        input: z.object({}),
+        execution: "server",
+        ui: { label: "📋 List Reminders", status: "Reading the schedule..." },
+        execute: async (_input, ctx) => ({ reminders: ctx.listReminders() }),
+    }),
+    cancelReminder: defineTool({
+        description: "Cancel an upcoming reminder by ID. Call listReminders first to find the ID. Requires user approval.",
+        input: z.object({
+            id: z.string().min(1).describe("The reminder ID"),
+        }),
+        execution: "approval",
+        ui: { label: "🗑️ Cancel Reminder", status: "Removing scheduled event..." },
+        execute: ({ id }, ctx) => ctx.cancelReminder(id),
+    }),
+    updateReminder: defineTool({
+        description: "Change the message and/or timing of an upcoming reminder by ID. Call listReminders first to find the ID. Requires user approval.",
+        input: z.object({
+            id: z.string().min(1).describe("The reminder ID"),
+            message: z.string().min(1).optional().describe("The new reminder message"),
+            ...reminderTiming,
+        }).refine((input) => countTimings(input) <= 1, {
+            message: "Provide at most one of delaySeconds, at or cron.",
+        }),
+        execution: "approval",
+        ui: { label: "✏️ Update Reminder", status: "Rescheduling system event..." },
+        execute: ({ id, ...changes }, ctx) => ctx.updateReminder(id, changes),
+    }),
+} satisfies Record<string, AnyToolDefinition>;
+
+export type ToolName = keyof typeof TOOLS;
+
+export function getTool(name: string): AnyToolDefinition | undefined {
+    return Object.hasOwn(TOOLS, name) ? TOOLS[name as ToolName] : undefined;
+}
+
+/** Generates the function-calling schema sent to Workers AI from the registry, limited to `allowed` tools. */
+export async function buildToolSchemas(allowed: readonly string[] = Object.keys(TOOLS)): Promise<WorkersAITool[]> {
+    return Promise.all(
+        Object.entries(TOOLS).filter(([name]) => allowed.includes(name)).map(async ([name, tool]) => {
+            const { $schema: _, ...parameters } = await zodSchema(tool.input).jsonSchema;
+            return {
+                type: "function" as const,
+                function: { name, description: tool.description, parameters },
+            };
+        })
+    );
+}
+
+export type ParsedToolCall =
+    | { ok: true; tool: AnyToolDefinition; input: Record<string, unknown> }
+    | { ok: false; input: unknown; error: string };
+
+/**
+ * Resolves a raw model tool call against the registry. Unknown tools, tools outside
+ * `allowed`, malformed JSON and schema violations all come back as `ok: false` so the
+ * caller can report the problem to the model instead of failing the turn.
+ */
+export function parseToolCall(name: string, rawArguments: string, allowed: readonly string[] = Object.keys(TOOLS)): ParsedToolCall {
+    const tool = allowed.includes(name) ? getTool(name) : undefined;
+    if (!tool) {
+        return { ok: false, input: {}, error: `Unknown tool "${name}". Available tools: ${allowed.join(", ") || "none"}.` };
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(rawArguments || "{}");
+    } catch {
+        return { ok: false, input: rawArguments, error: `Arguments for ${name} are not valid JSON.` };
+    }
+
+    const result = tool.input.safeParse(raw);
+    if (!result.success) {
+        const issues = result.error.issues
+            .map((i: z.ZodIssue) => `${i.path.join(".") || "(root)"}: ${i.message}`)
+            .join("; ");
+        return { ok: false, input: raw, error: `Invalid arguments for ${name}: ${issues}. Fix the arguments and call the tool again.` };
+    }
+    return { ok: true, tool, input: result.data };
+}
+
+function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+    if (typeof value === "object" && value !== null) {
+        const entries = Object.entries(value).filter(([, v]) => v !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+}
+
+/** Identifies a call by tool name and arguments, whatever order the model wrote the arguments in. */
+export function toolCallKey(name: string, input: unknown): string {
+    return `${name}:${canonicalJson(input)}`;
+}
+
+/**
+ * Runs `run` over `items` concurrently, with at most `concurrency` calls of the same tool
+ * in flight at once. Results come back in the order of `items`.
+ */
+export async function runToolsConcurrently<T extends { toolName: string }, R>(items: T[], run: (item: T) => Promise<R>): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    const queues = new Map<string, number[]>();
+    items.forEach((item, i) => queues.set(item.toolName, [...(queues.get(item.toolName) ?? []), i]));
+
+    await Promise.all([...queues].flatMap(([toolName, queue]) => {
+        const limit = Math.max(1, getTool(toolName)?.concurrency ?? DEFAULT_TOOL_CONCURRENCY);
+        const worker = async () => {
+            for (let i = queue.shift(); i !== undefined; i = queue.shift()) results[i] = await run(items[i]);
+        };
+        return Array.from({ length: Math.min(limit, queue.length) }, worker);
+    }));
+    return results;
+}
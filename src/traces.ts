@@ -0,0 +1,447 @@
+import type { Sql } from "./rate-limit";
+
+/** Traces kept per conversation; older ones are dropped as new turns finish. */
+const MAX_TRACES = 200;
+/** Tool arguments and error messages are cut to this length before they are stored. */
+const MAX_DETAIL_CHARS = 2000;
+
+export type TraceStatus = "running" | "completed" | "paused" | "interrupted" | "error";
+
+/**
+ * How a tool call ended. `awaiting-approval` and `awaiting-client` are updated in place
+ * once the user answers or the browser returns a result; `skipped` calls were over the
+ * turn's tool budget.
+ */
+export type ToolCallOutcome =
+    | "ok"
+    | "error"
+    | "invalid"
+    | "awaiting-approval"
+    | "awaiting-client"
+    | "rejected"
+    | "timeout"
+    | "skipped"
+    | "interrupted";
+
+/**
+ * One model request within a turn. A model that failed to respond gets a `failed` entry
+ * of its own, next to the fallback's entry for the same pass if the fallback answered.
+ */
+export type PassTrace = {
+    pass: number;
+    /** The model that answered, which is the fallback when the selected model failed. */
+    modelId: string;
+    /** The model did not respond; the entry has no tokens and `error` says why. */
+    failed: boolean;
+    startedAt: string;
+    /** From sending the request to the end of the streamed response. */
+    latencyMs: number;
+    /** From sending the request to the first streamed token; null when nothing was streamed. */
+    firstTokenMs: number | null;
+    promptTokens: number;
+    completionTokens: number;
+    /** Token counts are estimated from the text when the model does not report usage. */
+    estimatedTokens: boolean;
+    /** Why the selected model was skipped for its fallback, if it was. */
+    error: string | null;
+};
+
+export type ToolCallTrace = {
+    pass: number;
+    toolCallId: string;
+    toolName: string;
+    /** The raw arguments from the model, truncated. */
+    arguments: string;
+    startedAt: string;
+    /** Null while the call is waiting for an approval or the browser. */
+    durationMs: number | null;
+    outcome: ToolCallOutcome;
+    error: string | null;
+};
+
+/** One call to `onChatMessage`: a user message, or a turn resumed after an approval or client tool. */
+export type TurnTrace = {
+    id: string;
+    modelId: string;
+    personaId: string;
+    /** `resume` for turns continued after a paused tool call. */
+    trigger: "message" | "resume";
+    startedAt: string;
+    durationMs: number | null;
+    status: TraceStatus;
+    error: string | null;
+    passes: PassTrace[];
+    toolCalls: ToolCallTrace[];
+};
+
+export type ToolStats = {
+    tool: string;
+    calls: number;
+    errors: number;
+    /** Over calls that finished; calls waiting on the user are not timed. */
+    avgMs: number;
+    maxMs: number;
+    totalMs: number;
+    timedCalls: number;
+};
+
+export type ModelStats = {
+    model: string;
+    passes: number;
+    /** Passes on which this model failed to respond, whether or not a fallback answered instead. */
+    failures: number;
+    avgLatencyMs: number;
+    maxLatencyMs: number;
+    totalLatencyMs: number;
+    promptTokens: number;
+    completionTokens: number;
+};
+
+export type TraceStats = {
+    since: string;
+    turns: number;
+    failedTurns: number;
+    tools: ToolStats[];
+    models: ModelStats[];
+};
+
+type TraceRow = {
+    id: string;
+    model_id: string;
+    persona_id: string;
+    trigger: "message" | "resume";
+    started_at: number;
+    finished_at: number | null;
+    status: TraceStatus;
+    error: string | null;
+};
+
+type PassRow = {
+    trace_id: string;
+    pass: number;
+    model_id: string;
+    started_at: number;
+    latency_ms: number;
+    first_token_ms: number | null;
+    prompt_tokens: number;
+    completion_tokens: number;
+    estimated_tokens: number;
+    failed: number;
+    error: string | null;
+};
+
+type ToolCallRow = {
+    trace_id: string;
+    pass: number;
+    tool_call_id: string;
+    tool_name: string;
+    arguments: string;
+    started_at: number;
+    duration_ms: number | null;
+    outcome: ToolCallOutcome;
+    error: string | null;
+};
+
+export function createTraceTables(sql: Sql) {
+    sql`create table if not exists sage_traces (
+        id text primary key,
+        model_id text not null,
+        persona_id text not null,
+        trigger text not null,
+        started_at integer not null,
+        finished_at integer,
+        status text not null,
+        error text
+    )`;
+    sql`create table if not exists sage_trace_passes (
+        trace_id text not null,
+        pass integer not null,
+        model_id text not null,
+        started_at integer not null,
+        latency_ms integer not null,
+        first_token_ms integer,
+        prompt_tokens integer not null,
+        completion_tokens integer not null,
+        estimated_tokens integer not null,
+        failed integer not null default 0,
+        error text,
+        primary key (trace_id, pass, model_id)
+    )`;
+    sql`create table if not exists sage_trace_tool_calls (
+        trace_id text not null,
+        pass integer not null,
+        tool_call_id text not null,
+        tool_name text not null,
+        arguments text not null,
+        started_at integer not null,
+        duration_ms integer,
+        outcome text not null,
+        error text,
+        primary key (trace_id, tool_call_id)
+    )`;
+    sql`create index if not exists sage_trace_passes_started on sage_trace_passes (started_at)`;
+}
+
+function truncate(text: string) {
+    return text.length > MAX_DETAIL_CHARS ? `${text.slice(0, MAX_DETAIL_CHARS)}…` : text;
+}
+
+export function errorMessage(err: unknown) {
+    return err instanceof Error ? err.message : String(err);
+}
+
+/**
+ * Records one turn as it runs. Every pass and tool call is written as soon as it ends,
+ * so a turn that crashes or is paused still leaves a usable trace behind.
+ */
+export class TraceRecorder {
+    readonly id = crypto.randomUUID();
+    private readonly startedAt = Date.now();
+
+    constructor(private sql: Sql, details: { modelId: string; personaId: string; trigger: TurnTrace["trigger"] }) {
+        this.sql`
+            insert into sage_traces (id, model_id, persona_id, trigger, started_at, status)
+            values (${this.id}, ${details.modelId}, ${details.personaId}, ${details.trigger}, ${this.startedAt}, 'running')
+        `;
+    }
+
+    pass(details: {
+        pass: number;
+        modelId: string;
+        startedAt: number;
+        firstTokenAt: number | null;
+        promptTokens: number;
+        completionTokens: number;
+        estimatedTokens: boolean;
+        error?: string;
+    }) {
+        const now = Date.now();
+        this.sql`
+            insert or replace into sage_trace_passes
+                (trace_id, pass, model_id, started_at, latency_ms, first_token_ms, prompt_tokens, completion_tokens, estimated_tokens, error)
+            values (
+                ${this.id}, ${details.pass}, ${details.modelId}, ${details.startedAt}, ${now - details.startedAt},
+                ${details.firstTokenAt === null ? null : details.firstTokenAt - details.startedAt},
+                ${details.promptTokens}, ${details.completionTokens}, ${details.estimatedTokens ? 1 : 0},
+                ${details.error ? truncate(details.error) : null}
+            )
+        `;
+    }
+
+    /** Records a model that failed to respond in `pass`, after its own retries. */
+    failedPass(details: { pass: number; modelId: string; startedAt: number; error: string }) {
+        this.sql`
+            insert or replace into sage_trace_passes
+                (trace_id, pass, model_id, started_at, latency_ms, first_token_ms, prompt_tokens, completion_tokens, estimated_tokens, failed, error)
+            values (
+                ${this.id}, ${details.pass}, ${details.modelId}, ${details.startedAt}, ${Date.now() - details.startedAt},
+                null, 0, 0, 0, 1, ${truncate(details.error)}
+            )
+        `;
+    }
+
+    /**
+     * Records a tool call. Pass `startedAt` for calls that ran, so the duration is
+     * measured; calls that are still waiting are stored without one.
+     */
+    toolCall(details: {
+        pass: number;
+        toolCallId: string;
+        toolName: string;
+        arguments: string;
+        startedAt?: number;
+        outcome: ToolCallOutcome;
+        error?: string;
+    }) {
+        const now = Date.now();
+        this.sql`
+            insert or replace into sage_trace_tool_calls
+                (trace_id, pass, tool_call_id, tool_name, arguments, started_at, duration_ms, outcome, error)
+            values (
+                ${this.id}, ${details.pass}, ${details.toolCallId}, ${details.toolName}, ${truncate(details.arguments)},
+                ${details.startedAt ?? now}, ${details.startedAt === undefined ? null : now - details.startedAt},
+                ${details.outcome}, ${details.error ? truncate(details.error) : null}
+            )
+        `;
+    }
+
+    finish(status: Exclude<TraceStatus, "running">, error?: string) {
+        this.sql`
+            update sage_traces set status = ${status}, finished_at = ${Date.now()}, error = ${error ? truncate(error) : null}
+            where id = ${this.id}
+        `;
+        pruneTraces(this.sql);
+    }
+}
+
+/**
+ * Settles a tool call that was left waiting for an approval or the browser. Its
+ * duration runs from when the model asked for it, so it includes the wait. Models
+ * reuse tool call IDs across turns (`call_0`), so only the latest waiting call with
+ * the ID is settled.
+ */
+export function resolveToolCallTrace(sql: Sql, toolCallId: string, outcome: ToolCallOutcome, error?: string) {
+    const [waiting] = sql<Pick<ToolCallRow, "trace_id">>`
+        select trace_id from sage_trace_tool_calls
+        where tool_call_id = ${toolCallId} and outcome in ('awaiting-approval', 'awaiting-client')
+        order by started_at desc limit 1
+    `;
+    if (!waiting) return;
+    sql`
+        update sage_trace_tool_calls
+        set outcome = ${outcome}, duration_ms = ${Date.now()} - started_at, error = ${error ? truncate(error) : null}
+        where trace_id = ${waiting.trace_id} and tool_call_id = ${toolCallId}
+    `;
+}
+
+function pruneTraces(sql: Sql) {
+    const [cutoff] = sql<{ started_at: number }>`
+        select started_at from sage_traces order by started_at desc limit 1 offset ${MAX_TRACES - 1}
+    `;
+    if (!cutoff) return;
+    sql`delete from sage_trace_passes where trace_id in (select id from sage_traces where started_at < ${cutoff.started_at})`;
+    sql`delete from sage_trace_tool_calls where trace_id in (select id from sage_traces where started_at < ${cutoff.started_at})`;
+    sql`delete from sage_traces where started_at < ${cutoff.started_at}`;
+}
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+/** The most recent turns, newest first, with their passes and tool calls. */
+export function listTraces(sql: Sql, limit: number): TurnTrace[] {
+    const rows = sql<TraceRow>`select * from sage_traces order by started_at desc limit ${Math.max(1, Math.floor(limit))}`;
+    return rows.map((row) => ({
+        id: row.id,
+        modelId: row.model_id,
+        personaId: row.persona_id,
+        trigger: row.trigger,
+        startedAt: iso(row.started_at),
+        durationMs: row.finished_at === null ? null : row.finished_at - row.started_at,
+        status: row.status,
+        error: row.error,
+        passes: sql<PassRow>`select * from sage_trace_passes where trace_id = ${row.id} order by pass, started_at`.map((p) => ({
+            pass: p.pass,
+            modelId: p.model_id,
+            failed: p.failed === 1,
+            startedAt: iso(p.started_at),
+            latencyMs: p.latency_ms,
+            firstTokenMs: p.first_token_ms,
+            promptTokens: p.prompt_tokens,
+            completionTokens: p.completion_tokens,
+            estimatedTokens: p.estimated_tokens === 1,
+            error: p.error,
+        })),
+        toolCalls: sql<ToolCallRow>`select * from sage_trace_tool_calls where trace_id = ${row.id} order by started_at`.map((c) => ({
+            pass: c.pass,
+            toolCallId: c.tool_call_id,
+            toolName: c.tool_name,
+            arguments: c.arguments,
+            startedAt: iso(c.started_at),
+            durationMs: c.duration_ms,
+            outcome: c.outcome,
+            error: c.error,
+        })),
+    }));
+}
+
+/** Per-tool and per-model totals over the traces started since `since` (epoch ms). */
+export function traceStats(sql: Sql, since: number): TraceStats {
+    const [turns] = sql<{ turns: number; failed: number | null }>`
+        select count(*) as turns, sum(status = 'error') as failed from sage_traces where started_at >= ${since}
+    `;
+    const tools = sql<{ tool: string; calls: number; errors: number; total_ms: number | null; max_ms: number | null; timed: number }>`
+        select tool_name as tool, count(*) as calls,
+            sum(outcome in ('error', 'invalid', 'timeout')) as errors,
+            sum(duration_ms) as total_ms, max(duration_ms) as max_ms, count(duration_ms) as timed
+        from sage_trace_tool_calls where started_at >= ${since}
+        group by tool_name
+    `;
+    const models = sql<{ model: string; passes: number; total_ms: number; max_ms: number; prompt: number; completion: number }>`
+        select model_id as model, count(*) as passes, sum(latency_ms) as total_ms, max(latency_ms) as max_ms,
+            sum(prompt_tokens) as prompt, sum(completion_tokens) as completion
+        from sage_trace_passes where started_at >= ${since} and failed = 0
+        group by model_id
+    `;
+    const failures = sql<{ model: string; failures: number }>`
+        select model_id as model, count(*) as failures
+        from sage_trace_passes where started_at >= ${since} and failed = 1
+        group by model_id
+    `;
+
+    return mergeTraceStats(since, [{
+        since: iso(since),
+        turns: turns.turns,
+        failedTurns: turns.failed ?? 0,
+        tools: tools.map((t) => ({
+            tool: t.tool,
+            calls: t.calls,
+            errors: t.errors,
+            totalMs: t.total_ms ?? 0,
+            maxMs: t.max_ms ?? 0,
+            timedCalls: t.timed,
+            avgMs: 0,
+        })),
+        models: [
+            ...models.map((m) => ({
+                model: m.model,
+                passes: m.passes,
+                failures: 0,
+                totalLatencyMs: m.total_ms,
+                maxLatencyMs: m.max_ms,
+                avgLatencyMs: 0,
+                promptTokens: m.prompt,
+                completionTokens: m.completion,
+            })),
+            ...failures.map((f) => ({
+                model: f.model,
+                passes: 0,
+                failures: f.failures,
+                totalLatencyMs: 0,
+                maxLatencyMs: 0,
+                avgLatencyMs: 0,
+                promptTokens: 0,
+                completionTokens: 0,
+            })),
+        ],
+    }]);
+}
+
+/** Adds up stats from several conversations, e.g. every thread of one user. */
+export function mergeTraceStats(since: number, parts: TraceStats[]): TraceStats {
+    const tools = new Map<string, ToolStats>();
+    const models = new Map<string, ModelStats>();
+
+    for (const part of parts) {
+        for (const t of part.tools) {
+            const total = tools.get(t.tool) ?? { tool: t.tool, calls: 0, errors: 0, avgMs: 0, maxMs: 0, totalMs: 0, timedCalls: 0 };
+            total.calls += t.calls;
+            total.errors += t.errors;
+            total.totalMs += t.totalMs;
+            total.timedCalls += t.timedCalls;
+            total.maxMs = Math.max(total.maxMs, t.maxMs);
+            tools.set(t.tool, total);
+        }
+        for (const m of part.models) {
+            const total = models.get(m.model) ?? {
+                model: m.model, passes: 0, failures: 0, avgLatencyMs: 0, maxLatencyMs: 0, totalLatencyMs: 0, promptTokens: 0, completionTokens: 0,
+            };
+            total.passes += m.passes;
+            total.failures += m.failures;
+            total.totalLatencyMs += m.totalLatencyMs;
+            total.maxLatencyMs = Math.max(total.maxLatencyMs, m.maxLatencyMs);
+            total.promptTokens += m.promptTokens;
+            total.completionTokens += m.completionTokens;
+            models.set(m.model, total);
+        }
+    }
+
+    for (const t of tools.values()) t.avgMs = t.timedCalls > 0 ? Math.round(t.totalMs / t.timedCalls) : 0;
+    for (const m of models.values()) m.avgLatencyMs = m.passes > 0 ? Math.round(m.totalLatencyMs / m.passes) : 0;
+
+    return {
+        since: iso(since),
+        turns: parts.reduce((sum, p) => sum + p.turns, 0),
+        failedTurns: parts.reduce((sum, p) => sum + p.failedTurns, 0),
+        tools: [...tools.values()].sort((a, b) => b.calls - a.calls),
+        models: [...models.values()].sort((a, b) => b.passes - a.passes),
+    };
+}
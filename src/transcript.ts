@@ -0,0 +1,264 @@
+import { getToolName, isToolUIPart, safeValidateUIMessages } from "ai";
+import type { UIMessage } from "ai";
+import { z } from "zod";
+import type { StepLimitNotice, TurnError } from "./state";
+
+export const TRANSCRIPT_FORMAT = "sage-transcript";
+export const TRANSCRIPT_VERSION = 1;
+/** Imports arrive over the WebSocket, which caps messages at 1 MiB. */
+export const MAX_IMPORT_CHARS = 1_000_000;
+const MAX_IMPORT_MESSAGES = 2000;
+const UNFINISHED_TOOL_ERROR = "Not finished when the conversation was exported.";
+
+/** A conversation exported as JSON: the chat history exactly as the agent stores it. */
+export type ConversationExport = {
+    format: typeof TRANSCRIPT_FORMAT;
+    version: typeof TRANSCRIPT_VERSION;
+    title: string;
+    exportedAt: string;
+    modelId?: string;
+    personaId?: string;
+    messages: UIMessage[];
+};
+
+export type ExportFormat = "markdown" | "json";
+
+/** A file for the browser to download. */
+export type ExportFile = { fileName: string; mimeType: string; content: string };
+
+export function createConversationExport(
+    messages: UIMessage[],
+    details: { title: string; modelId?: string; personaId?: string }
+): ConversationExport {
+    return {
+        format: TRANSCRIPT_FORMAT,
+        version: TRANSCRIPT_VERSION,
+        title: details.title,
+        exportedAt: new Date().toISOString(),
+        modelId: details.modelId,
+        personaId: details.personaId,
+        messages,
+    };
+}
+
+function fileSlug(title: string) {
+    return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "-").replace(/^-+|-+$/g, "").slice(0, 60) || "conversation";
+}
+
+export function toExportFile(conversation: ConversationExport, format: ExportFormat): ExportFile {
+    const slug = fileSlug(conversation.title);
+    if (format === "json") {
+        return { fileName: `${slug}.json`, mimeType: "application/json", content: JSON.stringify(conversation, null, 2) };
+    }
+    if (format === "markdown") {
+        return { fileName: `${slug}.md`, mimeType: "text/markdown", content: toMarkdown(conversation) };
+    }
+    throw new Error(`Unknown export format "${format}". Use markdown or json.`);
+}
+
+type ToolPartView = { toolName: string; state: string; input?: unknown; output?: unknown; errorText?: string };
+
+function toolParts(message: UIMessage): ToolPartView[] {
+    return message.parts.filter(isToolUIPart).map((part) => ({ ...part, toolName: getToolName(part) }) as ToolPartView);
+}
+
+function messageText(message: UIMessage) {
+    return message.parts.map((p) => (p.type === "text" ? p.text : "")).join("").trim();
+}
+
+function toolStatus(part: ToolPartView) {
+    switch (part.state) {
+        case "output-available": return "completed";
+        case "output-error": return `failed: ${part.errorText ?? "unknown error"}`;
+        case "output-denied": return "rejected by the user";
+        default: return "not finished";
+    }
+}
+
+/** A code fence longer than any run of backticks in `content`, so the content cannot close it. */
+function fenced(content: string, language: string) {
+    const longest = Math.max(2, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+    const fence = "`".repeat(longest + 1);
+    return `${fence}${language}\n${content}\n${fence}`;
+}
+
+/** A readable transcript, in message order. Tool calls keep their input and output, as JSON blocks. */
+export function toMarkdown(conversation: ConversationExport): string {
+    const sections = [`# ${conversation.title}`, `_Exported from Sage on ${conversation.exportedAt}_`];
+
+    for (const message of conversation.messages) {
+        const blocks = [`## ${message.role === "user" ? "You" : message.role === "assistant" ? "Sage" : "System"}`];
+        const sources: string[] = [];
+
+        for (const part of message.parts) {
+            if (part.type === "text" && part.text.trim()) {
+                blocks.push(part.text.trim());
+            } else if (isToolUIPart(part)) {
+                const tool = { ...part, toolName: getToolName(part) } as ToolPartView;
+                blocks.push(`**Tool \`${tool.toolName}\`** (${toolStatus(tool)})`);
+                if (tool.input !== undefined) blocks.push(`Input:\n\n${fenced(JSON.stringify(tool.input, null, 2), "json")}`);
+                if (tool.output !== undefined) blocks.push(`Output:\n\n${fenced(JSON.stringify(tool.output, null, 2), "json")}`);
+            } else if (part.type === "data-error") {
+                blocks.push(`_${(part.data as TurnError).message}_`);
+            } else if (part.type === "data-step-limit") {
+                const { reason, limit } = part.data as StepLimitNotice;
+                blocks.push(`_${reason === "steps" ? `Step limit reached (${limit} steps).` : `Tool limit reached (${limit} tool calls).`}_`);
+            } else if (part.type === "source-url") {
+                const title = part.title ?? part.url;
+                sources.push(`${part.sourceId}. ${isHttpUrl(part.url) ? `[${title}](${part.url})` : title}`);
+            } else if (part.type === "source-document") {
+                sources.push(`${part.sourceId}. ${part.title} (uploaded document)`);
+            }
+        }
+        if (sources.length > 0) blocks.push(`Sources:\n\n${sources.join("\n")}`);
+
+        sections.push(blocks.join("\n\n"));
+    }
+    return `${sections.join("\n\n")}\n`;
+}
+
+/** The data parts Sage writes; an import carrying any other, or one of these with the wrong shape, is refused. */
+const DATA_PART_SCHEMAS = {
+    error: z.object({
+        kind: z.enum(["rate_limited", "timeout", "unavailable", "invalid_request", "internal"]),
+        message: z.string(),
+        retryable: z.boolean(),
+    }),
+    "step-limit": z.object({ reason: z.enum(["steps", "tools"]), limit: z.number() }),
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Tool calls that were still waiting for an approval or the browser when the
+ * conversation was exported can never finish in the new thread; they are marked failed.
+ */
+function settleToolParts(message: UIMessage): UIMessage {
+    return {
+        ...message,
+        parts: message.parts.map((part) =>
+            isToolUIPart(part) && !["output-available", "output-error", "output-denied"].includes(part.state)
+                ? ({ ...part, state: "output-error", errorText: UNFINISHED_TOOL_ERROR } as typeof part)
+                : part
+        ),
+    };
+}
+
+/**
+ * Parses and checks a JSON export before it is imported. Every message part must have the
+ * fields its type calls for, as the AI SDK defines them, since the transcript, the shared
+ * page and the client read them without checking. Invalid input throws.
+ */
+export async function parseConversationExport(json: string): Promise<ConversationExport> {
+    if (json.length > MAX_IMPORT_CHARS) {
+        throw new Error(`Exports are limited to ${MAX_IMPORT_CHARS.toLocaleString("en-US")} characters.`);
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (!isObject(data) || data.format !== TRANSCRIPT_FORMAT) throw new Error("The file is not a Sage conversation export.");
+    if (data.version !== TRANSCRIPT_VERSION) throw new Error(`Unsupported export version ${String(data.version)}.`);
+    if (!Array.isArray(data.messages)) throw new Error("The export has no messages.");
+    if (data.messages.length > MAX_IMPORT_MESSAGES) throw new Error(`Exports are limited to ${MAX_IMPORT_MESSAGES} messages.`);
+
+    const ids = new Set<string>();
+    data.messages.forEach((message, i) => {
+        if (
+            !isObject(message)
+            || typeof message.id !== "string" || !message.id
+            || !["user", "assistant", "system"].includes(message.role as string)
+            || !Array.isArray(message.parts)
+            || !message.parts.every((part) => isObject(part) && typeof part.type === "string")
+        ) {
+            throw new Error(`Message ${i + 1} of the export is malformed.`);
+        }
+        if (ids.has(message.id)) throw new Error(`Message ${i + 1} repeats the ID "${message.id}".`);
+        ids.add(message.id);
+    });
+    if (data.messages.length > 0) {
+        const validated = await safeValidateUIMessages({ messages: data.messages, dataSchemas: DATA_PART_SCHEMAS });
+        if (!validated.success) throw new Error("The export has a message part that is missing fields or has the wrong shape.");
+    }
+
+    return {
+        format: TRANSCRIPT_FORMAT,
+        version: TRANSCRIPT_VERSION,
+        title: typeof data.title === "string" ? data.title : "",
+        exportedAt: typeof data.exportedAt === "string" ? data.exportedAt : new Date().toISOString(),
+        modelId: typeof data.modelId === "string" ? data.modelId : undefined,
+        personaId: typeof data.personaId === "string" ? data.personaId : undefined,
+        messages: (data.messages as UIMessage[]).map(settleToolParts),
+    };
+}
+
+function escapeHtml(text: string) {
+    return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+function isHttpUrl(url: string) {
+    try {
+        return ["http:", "https:"].includes(new URL(url).protocol);
+    } catch {
+        return false;
+    }
+}
+
+const SHARED_PAGE_STYLE = `
+body { margin: 0; background: #0b0d14; color: #f1f3f9; font: 15px/1.7 Inter, system-ui, sans-serif; }
+main { max-width: 760px; margin: 0 auto; padding: 40px 20px 60px; }
+h1 { font-size: 22px; margin: 0 0 4px; }
+.meta { color: #8b93b0; font-size: 13px; margin: 0 0 28px; }
+.message { margin: 0 0 18px; padding: 14px 18px; border-radius: 14px; border: 1px solid rgba(255, 255, 255, 0.08); background: rgba(255, 255, 255, 0.05); }
+.message--user { background: rgba(139, 92, 246, 0.18); border-color: rgba(139, 92, 246, 0.4); }
+.role { font-size: 12px; font-weight: 600; color: #8b93b0; text-transform: uppercase; letter-spacing: 0.05em; }
+.text { white-space: pre-wrap; word-break: break-word; margin-top: 4px; }
+.tool { display: inline-block; margin: 6px 6px 0 0; padding: 2px 10px; border-radius: 999px; font-size: 12px; color: #8b93b0; border: 1px solid rgba(255, 255, 255, 0.1); }
+.sources { margin: 8px 0 0; padding-left: 20px; font-size: 13px; color: #8b93b0; }
+a { color: #22d3ee; }
+`;
+
+/**
+ * The read-only page served for a share link. Everything is escaped and the page
+ * carries no scripts; tool calls are named but their inputs and outputs are left out.
+ */
+export function renderSharedPage(conversation: ConversationExport, expiresAt: string): string {
+    const messages = conversation.messages.filter((m) => m.role !== "system").map((message) => {
+        const text = messageText(message);
+        const tools = toolParts(message).map((part) => `<span class="tool">${escapeHtml(part.toolName)} · ${escapeHtml(toolStatus(part))}</span>`);
+        const sources = message.parts.flatMap((p) =>
+            p.type === "source-url"
+                ? [`<li>${isHttpUrl(p.url) ? `<a href="${escapeHtml(p.url)}" rel="noopener noreferrer nofollow">${escapeHtml(p.title ?? p.url)}</a>` : escapeHtml(p.title ?? p.url)}</li>`]
+                : p.type === "source-document" ? [`<li>${escapeHtml(p.title)} (uploaded document)</li>`] : []
+        );
+        return `<section class="message message--${message.role}">
+<div class="role">${message.role === "user" ? "User" : "Sage"}</div>
+${text ? `<div class="text">${escapeHtml(text)}</div>` : ""}
+${tools.join("")}
+${sources.length > 0 ? `<ol class="sources">${sources.join("")}</ol>` : ""}
+</section>`;
+    });
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(conversation.title)} · Sage AI</title>
+<style>${SHARED_PAGE_STYLE}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(conversation.title)}</h1>
+<p class="meta">Shared from Sage AI on ${escapeHtml(conversation.exportedAt.slice(0, 10))} · read-only snapshot · link expires ${escapeHtml(expiresAt.slice(0, 10))}</p>
+${messages.join("\n")}
+</main>
+</body>
+</html>`;
+}
@@ -0,0 +1,158 @@
+import { withRetry } from "./retry";
+import type { RetryOptions } from "./retry";
+
+export type WorkersAIMessage = {
+    role: "system" | "user" | "assistant" | "tool";
+    content: string;
+    tool_call_id?: string;
+    name?: string;
+    tool_calls?: WorkersAIToolCall[];
+};
+
+export type WorkersAIToolCall = {
+    id: string;
+    type: "function";
+    function: { name: string; arguments: string };
+};
+
+/**
+ * A tool call fragment as it appears in a streamed chunk. Depending on the model,
+ * Workers AI either sends OpenAI-style deltas (`index` + partial `function.arguments`)
+ * or the whole call at once in the flat `{ name, arguments }` shape.
+ */
+type ToolCallFragment = {
+    index?: number;
+    id?: string;
+    type?: "function";
+    name?: string;
+    arguments?: string | Record<string, unknown>;
+    function?: { name?: string; arguments?: string | Record<string, unknown> };
+};
+
+export type WorkersAIStreamChunk = {
+    response?: string;
+    tool_calls?: ToolCallFragment[];
+    usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+};
+
+/**
+ * Reads the `text/event-stream` body returned by `env.AI.run(..., { stream: true })`
+ * and yields one parsed chunk per `data:` line. Lines can be split across network
+ * reads, so incomplete lines are buffered until their newline arrives. Aborting
+ * `signal` cancels the upstream body, which ends the iteration early.
+ */
+export async function* readWorkersAIStream(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<WorkersAIStreamChunk> {
+    const reader = stream.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    const cancel = () => { reader.cancel().catch(() => { }); };
+    if (signal?.aborted) cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            const lines = buffer.split("\n");
+            buffer = done ? "" : lines.pop() ?? "";
+
+            for (const raw of lines) {
+                const line = raw.trim();
+                if (!line.startsWith("data:")) continue;
+                const payload = line.slice(5).trim();
+                if (!payload || payload === "[DONE]") continue;
+                try {
+                    yield JSON.parse(payload) as WorkersAIStreamChunk;
+                } catch {
+                    console.warn("[Sage] Skipping malformed stream chunk:", payload.slice(0, 120));
+                }
+            }
+
+            if (done) break;
+        }
+    } finally {
+        signal?.removeEventListener("abort", cancel);
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Assembles complete tool calls out of the fragments spread over a streamed response.
+ * Fragments are keyed by `index` when the model provides one, otherwise by `id`,
+ * otherwise each fragment is treated as a complete call of its own.
+ */
+export class ToolCallAccumulator {
+    private calls = new Map<string, { id?: string; name: string; arguments: string }>();
+
+    add(fragments: ToolCallFragment[]) {
+        for (const fragment of fragments) {
+            const key = fragment.index !== undefined
+                ? `index-${fragment.index}`
+                : fragment.id ?? `call-${this.calls.size}`;
+            const entry = this.calls.get(key) ?? { name: "", arguments: "" };
+
+            const name = fragment.function?.name ?? fragment.name;
+            const args = fragment.function?.arguments ?? fragment.arguments;
+
+            if (fragment.id) entry.id = fragment.id;
+            if (name) entry.name = name;
+            if (typeof args === "string") entry.arguments += args;
+            else if (args) entry.arguments = JSON.stringify(args);
+
+            this.calls.set(key, entry);
+        }
+    }
+
+    toToolCalls(): WorkersAIToolCall[] {
+        return [...this.calls.values()]
+            .filter((c) => c.name)
+            .map((c, i) => ({
+                id: c.id ?? `call_${Date.now()}_${i}`,
+                type: "function" as const,
+                function: { name: c.name, arguments: c.arguments || "{}" },
+            }));
+    }
+}
+
+type WorkersAIBinding = {
+    run(model: string, inputs: Record<string, unknown>): Promise<unknown>;
+};
+
+export type ChatInputs = {
+    messages: WorkersAIMessage[];
+    tools?: unknown[];
+    max_tokens: number;
+    temperature?: number;
+};
+
+/** Runs a chat model in streaming mode and returns the raw SSE body. Failed starts are retried per `options`. */
+export function streamChat(
+    ai: Ai,
+    model: string,
+    inputs: ChatInputs,
+    options: RetryOptions<ReadableStream<Uint8Array>> = {}
+): Promise<ReadableStream<Uint8Array>> {
+    return withRetry(
+        () => (ai as unknown as WorkersAIBinding).run(model, { ...inputs, stream: true }) as Promise<ReadableStream<Uint8Array>>,
+        { discard: (stream) => { stream.cancel().catch(() => { }); }, ...options }
+    );
+}
+
+/** Runs a chat model to completion and returns the generated text. */
+export async function completeChat(ai: Ai, model: string, inputs: ChatInputs, options: RetryOptions = {}): Promise<string> {
+    const result = await withRetry(
+        () => (ai as unknown as WorkersAIBinding).run(model, { ...inputs, stream: false }),
+        options
+    ) as { response?: string };
+    return result.response ?? "";
+}
+
+/** Runs a text embedding model and returns one vector per input, in order. */
+export async function embedTexts(ai: Ai, model: string, texts: string[]): Promise<number[][]> {
+    const result = await withRetry(() => (ai as unknown as WorkersAIBinding).run(model, { text: texts })) as { data?: number[][] };
+    if (!result.data || result.data.length !== texts.length) {
+        throw new Error(`Embedding model ${model} returned ${result.data?.length ?? 0} vectors for ${texts.length} texts.`);
+    }
+    return result.data;
+}
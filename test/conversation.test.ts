@@ -0,0 +1,246 @@
+import { MAX_MESSAGE_CHARS } from "../src/rate-limit";
+import type { StepLimitNotice, TurnError } from "../src/state";
+import { assert, assertEqual, ChatClient, test } from "./harness";
+
+const DUCKDUCKGO = "https://api.duckduckgo.com/";
+
+const WORKERS_RESULT = {
+    Heading: "Cloudflare Workers",
+    AbstractText: "Serverless functions that run on Cloudflare's network.",
+    AbstractURL: "https://workers.cloudflare.com/",
+    AbstractSource: "Cloudflare",
+};
+
+test("answers a plain message with the scripted text", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([{ text: "Hello there, how can I help?" }]);
+
+    const turn = await client.send("Hi");
+    assertEqual(turn.error, undefined);
+    assertEqual(turn.text, "Hello there, how can I help?");
+
+    const { messages } = await client.snapshot();
+    assertEqual(messages.map((m) => m.role), ["user", "assistant"]);
+    const { calls, remaining } = await client.agent.modelCalls();
+    assertEqual(remaining, 0);
+    assertEqual(calls[0].messages.at(-1), { role: "user", content: "Hi" });
+    assert(calls[0].tools.includes("searchWeb"), "The default persona offers searchWeb.");
+    client.close();
+});
+
+test("runs a server tool and feeds its result into the next pass", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.routeFetch([{ url: DUCKDUCKGO, body: WORKERS_RESULT }]);
+    await client.agent.scriptModel([
+        { toolCalls: [{ name: "searchWeb", arguments: { query: "cloudflare workers" } }] },
+        { text: "Workers run on Cloudflare's network [1]." },
+    ]);
+
+    const turn = await client.send("What are Cloudflare Workers?");
+    assertEqual(turn.text, "Workers run on Cloudflare's network [1].");
+    assertEqual(turn.chunksOf("tool-output-available").length, 1);
+    assertEqual(turn.chunksOf("source-url").map((s) => s.url), ["https://workers.cloudflare.com/"]);
+
+    const urls = await client.agent.fetchedUrls();
+    assertEqual(urls.length, 1);
+    assert(urls[0].includes("q=cloudflare%20workers"), `Searched for the wrong query: ${urls[0]}`);
+
+    const { calls } = await client.agent.modelCalls();
+    assertEqual(calls.length, 2);
+    const [assistant, result] = calls[1].messages.slice(-2);
+    assertEqual(assistant.tool_calls?.map((c) => c.function.name), ["searchWeb"]);
+    assertEqual(result.role, "tool");
+    assert(result.content.includes("Serverless functions"), "The second pass sees the search result.");
+    client.close();
+});
+
+test("keeps the traces of tool calls that reuse an earlier turn's ID", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.routeFetch([{ url: DUCKDUCKGO, body: WORKERS_RESULT }]);
+    await client.agent.scriptModel([
+        { toolCalls: [{ name: "searchWeb", arguments: { query: "cloudflare workers" }, id: "call_0" }] },
+        { text: "Workers run on Cloudflare's network [1]." },
+        { toolCalls: [{ name: "searchWeb", arguments: { query: "durable objects" }, id: "call_0" }] },
+        { text: "Durable Objects keep state [1]." },
+    ]);
+    await client.send("What are Cloudflare Workers?");
+    await client.send("And Durable Objects?");
+
+    const { traces } = await client.agent.getTraces();
+    assertEqual(traces.map((t) => t.toolCalls.map((c) => [c.toolCallId, JSON.parse(c.arguments).query, c.outcome])), [
+        [["call_0", "durable objects", "ok"]],
+        [["call_0", "cloudflare workers", "ok"]],
+    ]);
+    client.close();
+});
+
+test("runs identical tool calls in one response only once", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.routeFetch([{ url: DUCKDUCKGO, body: WORKERS_RESULT }]);
+    await client.agent.scriptModel([
+        {
+            toolCalls: [
+                { name: "searchWeb", arguments: { query: "workers pricing" } },
+                { name: "searchWeb", arguments: { query: "workers pricing" } },
+                { name: "searchWeb", arguments: { query: "durable objects" } },
+            ],
+        },
+        { text: "Done." },
+    ]);
+
+    const turn = await client.send("Compare pricing");
+    assertEqual(turn.chunksOf("tool-output-available").length, 2);
+    assertEqual((await client.agent.fetchedUrls()).length, 2);
+    client.close();
+});
+
+test("reports invalid tool arguments to the model instead of failing the turn", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { toolCalls: [{ name: "searchWeb", arguments: "{not json" }] },
+        { text: "Sorry, let me answer directly." },
+    ]);
+
+    const turn = await client.send("Search something");
+    assertEqual(turn.text, "Sorry, let me answer directly.");
+    assertEqual(turn.chunksOf("tool-input-error").length, 1);
+
+    const { calls } = await client.agent.modelCalls();
+    const result = calls[1].messages.at(-1)!;
+    assertEqual(result.role, "tool");
+    assert(JSON.parse(result.content).error, `The model should see the error, got: ${result.content}`);
+    assertEqual((await client.agent.fetchedUrls()).length, 0);
+    client.close();
+});
+
+test("retries a rate-limited model call", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { error: "3040: Capacity temporarily exceeded" },
+        { text: "Made it on the second try." },
+    ]);
+
+    const turn = await client.send("Hello?");
+    assertEqual(turn.text, "Made it on the second try.");
+    assertEqual(turn.data<TurnError>("error"), []);
+    const { calls } = await client.agent.modelCalls();
+    assertEqual(calls.length, 2);
+    client.close();
+});
+
+test("ends a turn the model cannot answer with a typed error part", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { error: "400: invalid input" },
+        { error: "400: invalid input" },
+    ]);
+
+    const turn = await client.send("Hello?");
+    const [error] = turn.data<TurnError>("error");
+    assertEqual(error?.kind, "invalid_request");
+    assertEqual(error?.retryable, false);
+
+    const { calls, remaining } = await client.agent.modelCalls();
+    assertEqual(remaining, 0);
+    assert(calls[0].model !== calls[1].model, "The second attempt goes to the fallback model.");
+
+    const [trace] = (await client.agent.getTraces()).traces;
+    assertEqual(trace.passes.map((p) => [p.modelId, p.failed, p.error]), [
+        [calls[0].model, true, "400: invalid input"],
+        [calls[1].model, true, "400: invalid input"],
+    ]);
+    const stats = await client.agent.getTraceStats(0);
+    assertEqual(stats.models.map((m) => [m.model, m.passes, m.failures]).sort(), [[calls[0].model, 0, 1], [calls[1].model, 0, 1]].sort());
+    client.close();
+});
+
+test("answers without tools once the step limit is reached", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.routeFetch([{ url: DUCKDUCKGO, body: WORKERS_RESULT }]);
+    await client.agent.scriptModel([
+        ...["one", "two", "three", "four"].map((query) => ({ toolCalls: [{ name: "searchWeb", arguments: { query } }] })),
+        { text: "Here is what I found." },
+    ]);
+
+    const turn = await client.send("Research this thoroughly");
+    assertEqual(turn.text, "Here is what I found.");
+    assertEqual(turn.data<StepLimitNotice>("step-limit"), [{ reason: "steps", limit: 5 }]);
+
+    const { calls } = await client.agent.modelCalls();
+    assertEqual(calls.length, 5);
+    assertEqual(calls[4].tools, []);
+    client.close();
+});
+
+test("drops a queued message the client cancelled before its turn came", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([{ text: "A slow answer to the first message.", delayMs: 40 }]);
+
+    const first = await client.start("Hi");
+    const second = await client.start("And another thing");
+    client.cancel(second.id);
+    assertEqual((await first.done).text, "A slow answer to the first message.");
+    const dropped = await second.done;
+    assertEqual([dropped.chunks, dropped.error], [[], undefined]);
+
+    assertEqual((await client.agent.modelCalls()).calls.length, 1);
+    const { messages } = await client.snapshot();
+    assertEqual(messages.map((m) => m.role), ["user", "assistant"]);
+    client.close();
+});
+
+test("returns the refusal when a regenerate is rate limited", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel(["First.", "Second.", "Third.", "Fourth.", "Fifth."].map((text) => ({ text })));
+    await client.send("Hi");
+
+    for (let i = 0; i < 4; i++) {
+        const { messages } = await client.snapshot();
+        assertEqual(await client.agent.regenerate(messages.at(-1)!.id), null);
+    }
+    const { messages } = await client.snapshot();
+    const refusal = await client.agent.regenerate(messages.at(-1)!.id);
+    assertEqual(refusal?.error, "rate_limited");
+    assert((refusal?.retryAfterSeconds ?? 0) > 0, "The refusal says when to retry.");
+    assertEqual((await client.agent.modelCalls()).remaining, 0);
+    client.close();
+});
+
+test("stops a regenerated answer mid-stream and keeps the earlier one as a branch", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { text: "First answer." },
+        { text: "A second, much longer answer that goes on for quite a while.", delayMs: 40 },
+    ]);
+    await client.send("Hi");
+    const first = (await client.snapshot()).messages.at(-1)!;
+
+    const regenerating = client.agent.regenerate(first.id);
+    await client.streaming();
+    assertEqual(await client.agent.stopTurn(), true);
+    assertEqual(await regenerating, null);
+
+    const { messages, state } = await client.snapshot();
+    const answer = messages.at(-1)!;
+    assertEqual(answer.metadata, { interrupted: true });
+    const text = answer.parts.map((p) => (p.type === "text" ? p.text : "")).join("");
+    assert(text.length > 0 && !text.includes("quite a while"), `The answer was cut short, got "${text}".`);
+    assertEqual(state.branches?.[answer.id]?.siblingIds, [first.id, answer.id]);
+    client.close();
+});
+
+test("rejects edits longer than a chat message may be", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([{ text: "Hello." }]);
+    await client.send("Hi");
+
+    const { messages } = await client.snapshot();
+    let error = "";
+    try {
+        await client.agent.editMessage(messages[0].id, "x".repeat(MAX_MESSAGE_CHARS + 1));
+    } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+    }
+    assert(error.includes("at most"), `Expected the edit to be rejected, got "${error}".`);
+    client.close();
+});
@@ -0,0 +1,185 @@
+import { getAgentByName } from "agents";
+import { signWebhook, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from "../src/delivery";
+import type { SageState } from "../src/state";
+import { assert, assertEqual, test } from "./harness";
+import type { TestChatAgent, TestThreadIndexAgent } from "./harness";
+
+// Local stand-ins for a webhook receiver and the email API (EMAIL_API_URL in test/wrangler.jsonc).
+const HOOK = "http://localhost:9000/hooks/reminders";
+const EMAIL_API = "http://localhost:9001/send";
+
+/** A user's index with one thread in it, both reachable over RPC. */
+async function openThread(env: Env) {
+    const index = await getAgentByName(env.ThreadIndexAgent as unknown as DurableObjectNamespace<TestThreadIndexAgent>, crypto.randomUUID());
+    const thread = await index.createThread();
+    const chat = await getAgentByName(env.ChatAgent as unknown as DurableObjectNamespace<TestChatAgent>, thread.id);
+    return { index, chat, threadId: thread.id };
+}
+
+async function fireReminder(chat: DurableObjectStub<TestChatAgent>, message: string) {
+    await chat.schedule(60, "onTask", { message });
+    assertEqual(await chat.advanceClock(60), ["onTask"]);
+}
+
+/** Adds an email channel and confirms it with the code the email API was sent. */
+async function addEmailChannel(index: DurableObjectStub<TestThreadIndexAgent>, target: string) {
+    const { channel } = await index.saveDeliveryChannel({ id: "", kind: "email", name: "Inbox", target, enabled: true });
+    await index.confirmDeliveryChannel(channel.id, confirmationCode((await index.fetchedRequests()).at(-1)!.body));
+    return channel;
+}
+
+function confirmationCode(emailBody: string) {
+    return /code is (\d{6})/.exec(JSON.parse(emailBody).text)![1];
+}
+
+async function errorOf(action: () => Promise<unknown>) {
+    try {
+        await action();
+    } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+    }
+    return "";
+}
+
+async function chatState(chat: DurableObjectStub<TestChatAgent>): Promise<SageState> {
+    return JSON.parse(await chat.snapshot()).state;
+}
+
+test("delivery: posts a signed, Slack-compatible payload to a webhook", async (env) => {
+    const { index, chat, threadId } = await openThread(env);
+    await index.routeFetch([{ url: HOOK, body: "ok" }]);
+    const { secret } = await index.saveDeliveryChannel({ id: "", kind: "webhook", name: "Team Slack", target: HOOK, enabled: true });
+    assert(secret, "A new webhook gets a signing secret.");
+
+    await fireReminder(chat, "Stretch");
+    const [request] = await index.fetchedRequests();
+    assertEqual(request.method, "POST");
+    const payload = JSON.parse(request.body);
+    assertEqual(payload.text, `⏰ Reminder: Stretch (from "New conversation")`);
+    assertEqual(payload.reminder.threadId, threadId);
+    const timestamp = Number(request.headers[WEBHOOK_TIMESTAMP_HEADER.toLowerCase()]);
+    assertEqual(request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()], await signWebhook(secret, timestamp, request.body));
+
+    const { deliveryLog } = await index.snapshot();
+    assertEqual(deliveryLog?.map((e) => [e.kind, e.status]).sort(), [["in-app", "delivered"], ["webhook", "delivered"]]);
+    assertEqual((await chatState(chat)).firedReminders?.map((r) => r.message), ["Stretch"]);
+});
+
+test("delivery: retries a webhook that is briefly down", async (env) => {
+    const { index, chat } = await openThread(env);
+    await index.routeFetch([
+        { url: HOOK, status: 503, body: "maintenance", times: 1 },
+        { url: HOOK, body: "ok" },
+    ]);
+    await index.saveDeliveryChannel({ id: "", kind: "webhook", name: "Hook", target: HOOK, enabled: true });
+
+    await fireReminder(chat, "Stretch");
+    let entry = (await index.snapshot()).deliveryLog?.find((e) => e.kind === "webhook");
+    assertEqual([entry?.status, entry?.attempts, entry?.error], ["pending", 1, "The webhook returned 503: maintenance"]);
+    assert(entry?.nextAttemptAt, "The next attempt is scheduled.");
+
+    assertEqual(await index.advanceClock(30), ["onDeliveryRetry"]);
+    entry = (await index.snapshot()).deliveryLog?.find((e) => e.kind === "webhook");
+    assertEqual([entry?.status, entry?.attempts, entry?.error], ["delivered", 2, null]);
+    assertEqual((await index.fetchedRequests()).length, 2);
+});
+
+test("delivery: gives up on a webhook that refuses the payload", async (env) => {
+    const { index, chat } = await openThread(env);
+    await index.routeFetch([{ url: HOOK, status: 404, body: "no such hook" }]);
+    await index.saveDeliveryChannel({ id: "", kind: "webhook", name: "Hook", target: HOOK, enabled: true });
+
+    await fireReminder(chat, "Stretch");
+    const entry = (await index.snapshot()).deliveryLog?.find((e) => e.kind === "webhook");
+    assertEqual([entry?.status, entry?.attempts, entry?.nextAttemptAt], ["failed", 1, null]);
+    assertEqual((await index.advanceClock(3600)).length, 0);
+});
+
+test("delivery: sends email through the configured email API", async (env) => {
+    const { index, chat } = await openThread(env);
+    await index.routeFetch([{ url: EMAIL_API, body: { id: "msg_1" } }]);
+    await addEmailChannel(index, "ada@example.com");
+
+    await fireReminder(chat, "Submit the report");
+    const request = (await index.fetchedRequests()).at(-1)!;
+    const email = JSON.parse(request.body);
+    assertEqual([email.from, email.to, email.subject], ["sage@example.com", "ada@example.com", "Reminder: Submit the report"]);
+    assert(email.text.includes("Submit the report"), "The email body carries the reminder.");
+    const entry = (await index.snapshot()).deliveryLog?.find((e) => e.kind === "email");
+    assertEqual(entry?.status, "delivered");
+});
+
+test("delivery: keeps an email channel off until the code sent to it comes back", async (env) => {
+    const { index, chat } = await openThread(env);
+    await index.routeFetch([{ url: EMAIL_API, body: { id: "msg_1" } }]);
+    const { channel } = await index.saveDeliveryChannel({ id: "", kind: "email", name: "Inbox", target: "ada@example.com", enabled: true });
+    assertEqual([channel.enabled, channel.confirmed], [false, false]);
+    const [confirmation] = await index.fetchedRequests();
+    assertEqual(JSON.parse(confirmation.body).to, "ada@example.com");
+
+    await fireReminder(chat, "Stretch");
+    assertEqual((await index.fetchedRequests()).length, 1);
+    assert((await errorOf(() => index.testDeliveryChannel(channel.id))).includes("Confirm"), "Test sends wait for the code.");
+    assert((await errorOf(() => index.saveDeliveryChannel({ ...channel, enabled: true }))).includes("Confirm"), "The channel cannot be turned on.");
+    assertEqual(await errorOf(() => index.confirmDeliveryChannel(channel.id, "not-it")), "That code is not right.");
+
+    const confirmed = await index.confirmDeliveryChannel(channel.id, confirmationCode(confirmation.body));
+    assertEqual([confirmed.enabled, confirmed.confirmed], [true, true]);
+
+    await index.saveDeliveryChannel({ ...confirmed, target: "grace@example.com" });
+    const [changed] = (await index.snapshot()).deliveryChannels!.filter((c) => c.kind === "email");
+    assertEqual([changed.enabled, changed.confirmed], [false, false]);
+    assertEqual(JSON.parse((await index.fetchedRequests()).at(-1)!.body).to, "grace@example.com");
+});
+
+test("delivery: limits how many test reminders can be sent", async (env) => {
+    const { index } = await openThread(env);
+    await index.routeFetch([{ url: HOOK, body: "ok" }]);
+    const { channel } = await index.saveDeliveryChannel({ id: "", kind: "webhook", name: "Hook", target: HOOK, enabled: true });
+    for (let i = 0; i < 5; i++) await index.testDeliveryChannel(channel.id);
+    assert((await errorOf(() => index.testDeliveryChannel(channel.id))).startsWith("Too many"), "The sixth test send is refused.");
+    assertEqual((await index.fetchedRequests()).length, 5);
+});
+
+test("delivery: saves no email channel when its code cannot be sent yet", async (env) => {
+    const { index } = await openThread(env);
+    await index.routeFetch([{ url: HOOK, body: "ok" }, { url: EMAIL_API, body: { id: "msg_1" } }]);
+    const { channel } = await index.saveDeliveryChannel({ id: "", kind: "webhook", name: "Hook", target: HOOK, enabled: true });
+    for (let i = 0; i < 5; i++) await index.testDeliveryChannel(channel.id);
+
+    const error = await errorOf(() => index.saveDeliveryChannel({ id: "", kind: "email", name: "Inbox", target: "ada@example.com", enabled: true }));
+    assert(error.startsWith("Too many"), `Expected the save to be refused, got "${error}".`);
+    assertEqual((await index.snapshot()).deliveryChannels?.map((c) => c.kind), ["in-app", "webhook"]);
+    assertEqual((await index.fetchedRequests()).every((r) => r.url === HOOK), true);
+});
+
+test("delivery: allows ten channels besides in-app", async (env) => {
+    const { index } = await openThread(env);
+    for (let i = 0; i < 10; i++) {
+        await index.saveDeliveryChannel({ id: "", kind: "webhook", name: `Hook ${i}`, target: HOOK, enabled: true });
+    }
+    const error = await errorOf(() => index.saveDeliveryChannel({ id: "", kind: "webhook", name: "One more", target: HOOK, enabled: true }));
+    assertEqual(error, "You can add up to 10 channels.");
+    assertEqual((await index.snapshot()).deliveryChannels?.length, 11);
+});
+
+test("delivery: leaves the reminder out of the app when the in-app channel is off", async (env) => {
+    const { index, chat } = await openThread(env);
+    await index.routeFetch([{ url: HOOK, body: "ok" }]);
+    await index.saveDeliveryChannel({ id: "in-app", kind: "in-app", name: "", target: "", enabled: false });
+    await index.saveDeliveryChannel({ id: "", kind: "webhook", name: "Hook", target: HOOK, enabled: true });
+
+    await fireReminder(chat, "Stretch");
+    const state = await chatState(chat);
+    assertEqual(state.firedReminders ?? [], []);
+    assertEqual(state.upcomingReminders, []);
+    assertEqual((await index.fetchedRequests()).length, 1);
+});
+
+test("delivery: only accepts plain-HTTP webhooks on this machine", async (env) => {
+    const { index } = await openThread(env);
+    const error = await errorOf(() => index.saveDeliveryChannel({ id: "", kind: "webhook", name: "Hook", target: "http://hooks.example.com/x", enabled: true }));
+    assert(error.includes("https://"), `Expected the URL to be refused, got "${error}".`);
+    await index.saveDeliveryChannel({ id: "", kind: "webhook", name: "Hook", target: "https://hooks.example.com/x", enabled: true });
+    assertEqual((await index.snapshot()).deliveryChannels?.map((c) => c.kind), ["in-app", "webhook"]);
+});
@@ -0,0 +1,185 @@
+import { MessageType } from "@cloudflare/ai-chat/types";
+import { getAgentByName, routeAgentRequest } from "agents";
+import type { UIMessage, UIMessageChunk } from "ai";
+import type { SageState } from "../../src/state";
+import type { TestChatAgent } from "./test-agent";
+
+/** How long a test waits for the agent to finish a turn before failing. */
+const TURN_TIMEOUT_MS = 15_000;
+
+type ResponseFrame = {
+    type: string;
+    id: string;
+    body: string;
+    done: boolean;
+    error?: boolean;
+};
+
+/** One streamed answer: the chunks the agent sent, in order, and the error that ended it, if any. */
+export class Turn {
+    constructor(readonly id: string, readonly chunks: UIMessageChunk[], readonly error?: string) { }
+
+    get text() {
+        return this.chunks.map((c) => (c.type === "text-delta" ? c.delta : "")).join("");
+    }
+
+    chunksOf<T extends UIMessageChunk["type"]>(type: T): Extract<UIMessageChunk, { type: T }>[] {
+        return this.chunks.filter((c): c is Extract<UIMessageChunk, { type: T }> => c.type === type);
+    }
+
+    /** The payloads of the `data-<name>` parts in this turn. */
+    data<T>(name: string): T[] {
+        return this.chunks.flatMap((c) => (c.type === `data-${name}` && "data" in c ? [c.data as T] : []));
+    }
+}
+
+/**
+ * Talks to a `TestChatAgent` the way the browser does: over the agent's WebSocket, with
+ * the same chat protocol messages `useAgentChat` sends. Every conversation gets an agent
+ * instance of its own. Test-only RPC methods are reachable through `agent`.
+ */
+export class ChatClient {
+    private completed: Turn[] = [];
+    private streams = new Map<string, UIMessageChunk[]>();
+    private listeners = new Set<() => void>();
+
+    private constructor(readonly agent: DurableObjectStub<TestChatAgent>, private socket: WebSocket) {
+        socket.addEventListener("message", (event) => this._onFrame(event.data));
+    }
+
+    static async open(env: Env, name: string = crypto.randomUUID()): Promise<ChatClient> {
+        const namespace = env.ChatAgent as unknown as DurableObjectNamespace<TestChatAgent>;
+        const agent = await getAgentByName(namespace, name);
+        const response = await routeAgentRequest(
+            // Like the browser client, which puts the instance name in the path as is.
+            new Request(`http://sage.test/agents/chat-agent/${name}`, { headers: { Upgrade: "websocket" } }),
+            env
+        );
+        const socket = response?.webSocket;
+        if (!socket) throw new Error(`Could not open a WebSocket to chat agent "${name}" (status ${response?.status}).`);
+        socket.accept();
+        return new ChatClient(agent, socket);
+    }
+
+    /** Sends a user message with the full history, as `useAgentChat` does, and waits for the answer. */
+    async send(text: string, body: Record<string, unknown> = {}): Promise<Turn> {
+        return (await this.start(text, body)).done;
+    }
+
+    /** Sends a user message like `send`, but returns its request ID as soon as it is sent. */
+    async start(text: string, body: Record<string, unknown> = {}): Promise<{ id: string; done: Promise<Turn> }> {
+        const { messages } = await this.snapshot();
+        const id = crypto.randomUUID();
+        const user: UIMessage = { id: crypto.randomUUID(), role: "user", parts: [{ type: "text", text }] };
+        const done = this.nextTurn(id);
+        this.socket.send(JSON.stringify({
+            type: MessageType.CF_AGENT_USE_CHAT_REQUEST,
+            id,
+            init: { method: "POST", body: JSON.stringify({ messages: [...messages, user], ...body }) },
+        }));
+        return { id, done };
+    }
+
+    /** Cancels a chat request, as `useAgentChat`'s `stop()` does. */
+    cancel(id: string) {
+        this.socket.send(JSON.stringify({ type: MessageType.CF_AGENT_CHAT_REQUEST_CANCEL, id }));
+    }
+
+    /** Waits until an answer still streaming has sent some text. */
+    streaming(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const check = () => {
+                const started = [...this.streams.values()].some((chunks) => chunks.some((c) => c.type === "text-delta"));
+                if (!started) return;
+                clearTimeout(timer);
+                this.listeners.delete(check);
+                resolve();
+            };
+            const timer = setTimeout(() => {
+                this.listeners.delete(check);
+                reject(new Error(`No answer started streaming within ${TURN_TIMEOUT_MS / 1000} seconds.`));
+            }, TURN_TIMEOUT_MS);
+            this.listeners.add(check);
+            check();
+        });
+    }
+
+    /** Approves a gated tool call and waits for the turn it resumes. */
+    approve(toolCallId: string): Promise<Turn> {
+        return this._expectTurn(undefined, () => this.answerApproval(toolCallId, true));
+    }
+
+    /** Rejects a gated tool call and waits for the turn it resumes. */
+    reject(toolCallId: string): Promise<Turn> {
+        return this._expectTurn(undefined, () => this.answerApproval(toolCallId, false));
+    }
+
+    /** Answers an approval without waiting; the turn only resumes once every approval it asked for is answered. */
+    answerApproval(toolCallId: string, approved: boolean) {
+        this.socket.send(JSON.stringify({ type: MessageType.CF_AGENT_TOOL_APPROVAL, toolCallId, approved, autoContinue: true }));
+    }
+
+    /** Returns the browser's result for a client tool call and waits for the turn it resumes. */
+    returnToolResult(toolCallId: string, toolName: string, output: unknown): Promise<Turn> {
+        return this._expectTurn(undefined, () => this.socket.send(JSON.stringify({
+            type: MessageType.CF_AGENT_TOOL_RESULT,
+            toolCallId,
+            toolName,
+            output,
+            autoContinue: true,
+        })));
+    }
+
+    /** Runs `action`, which should start a turn, and waits for one (or the one with `id`) to finish. */
+    private async _expectTurn(id: string | undefined, action: () => unknown): Promise<Turn> {
+        const since = this.completed.length;
+        const waiting = this.nextTurn(id, since);
+        await action();
+        return waiting;
+    }
+
+    /** Waits for the first turn finished after the `since`-th one, or for the turn `id`. */
+    nextTurn(id?: string, since = this.completed.length): Promise<Turn> {
+        return new Promise((resolve, reject) => {
+            const check = () => {
+                const turn = this.completed.slice(since).find((t) => id === undefined || t.id === id);
+                if (!turn) return;
+                clearTimeout(timer);
+                this.listeners.delete(check);
+                resolve(turn);
+            };
+            const timer = setTimeout(() => {
+                this.listeners.delete(check);
+                reject(new Error(`No turn finished within ${TURN_TIMEOUT_MS / 1000} seconds.`));
+            }, TURN_TIMEOUT_MS);
+            this.listeners.add(check);
+            check();
+        });
+    }
+
+    async snapshot(): Promise<{ messages: UIMessage[]; state: SageState }> {
+        return JSON.parse(await this.agent.snapshot());
+    }
+
+    close() {
+        this.socket.close();
+    }
+
+    private _onFrame(data: unknown) {
+        if (typeof data !== "string") return;
+        const frame = JSON.parse(data) as ResponseFrame;
+        if (frame.type !== MessageType.CF_AGENT_USE_CHAT_RESPONSE) return;
+
+        const chunks = this.streams.get(frame.id) ?? [];
+        this.streams.set(frame.id, chunks);
+        if (frame.body && !frame.error) chunks.push(JSON.parse(frame.body) as UIMessageChunk);
+        if (!frame.done) {
+            for (const listener of [...this.listeners]) listener();
+            return;
+        }
+
+        this.streams.delete(frame.id);
+        this.completed.push(new Turn(frame.id, chunks, frame.error ? frame.body : undefined));
+        for (const listener of [...this.listeners]) listener();
+    }
+}
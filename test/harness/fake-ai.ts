@@ -0,0 +1,110 @@
+import type { WorkersAIMessage, WorkersAIStreamChunk } from "../../src/workers-ai";
+
+export type ScriptedToolCall = {
+    name: string;
+    /** An object is sent as JSON; a string is sent as is, so malformed arguments can be scripted too. */
+    arguments?: Record<string, unknown> | string;
+    /** Defaults to `call_<n>`, counting up across the conversation. */
+    id?: string;
+};
+
+/**
+ * One model response. `error` makes the call fail with that message before anything
+ * streams, the way Workers AI rejects a request; it is classified like a real failure,
+ * so a retryable error consumes one scripted response per attempt.
+ */
+export type ScriptedResponse = {
+    text?: string;
+    toolCalls?: ScriptedToolCall[];
+    error?: string;
+    /** Pause before each streamed event, for a response that is still streaming while the test does something else. */
+    delayMs?: number;
+};
+
+/** A model call as the agent made it. Tools are listed by name. */
+export type RecordedModelCall = {
+    model: string;
+    stream: boolean;
+    messages: WorkersAIMessage[];
+    tools: string[];
+    maxTokens?: number;
+    temperature?: number;
+};
+
+/**
+ * Stands in for the Workers AI binding. Responses are served in the order they were
+ * scripted, streamed in the same `text/event-stream` format as the real binding, and
+ * every call is recorded so tests can assert on the prompts the agent built. Tool
+ * call IDs are numbered per instance (`call_1`, `call_2`, ...), so they are stable.
+ */
+export class ScriptedAi {
+    readonly calls: RecordedModelCall[] = [];
+    private queue: ScriptedResponse[] = [];
+    private nextCallId = 1;
+
+    script(responses: ScriptedResponse[]) {
+        this.queue.push(...responses);
+    }
+
+    /** Responses scripted but not used yet. */
+    get remaining() {
+        return this.queue.length;
+    }
+
+    /** The object handed to the agent as `env.AI`. */
+    binding(): Ai {
+        return { run: (model: string, inputs: Record<string, unknown>) => this.run(model, inputs) } as unknown as Ai;
+    }
+
+    private async run(model: string, inputs: Record<string, unknown>): Promise<unknown> {
+        if ("text" in inputs) {
+            throw new Error("ScriptedAi does not embed text. Run the tests with EMBEDDING_PROVIDER=stub.");
+        }
+        const tools = (inputs.tools as { function: { name: string } }[] | undefined) ?? [];
+        this.calls.push({
+            model,
+            stream: inputs.stream === true,
+            messages: inputs.messages as WorkersAIMessage[],
+            tools: tools.map((t) => t.function.name),
+            maxTokens: inputs.max_tokens as number | undefined,
+            temperature: inputs.temperature as number | undefined,
+        });
+
+        const response = this.queue.shift();
+        if (!response) throw new Error(`No scripted response left for model call ${this.calls.length} (${model}).`);
+        if (response.error) throw new Error(response.error);
+        if (!inputs.stream) return { response: response.text ?? "" };
+        return this.toEventStream(response);
+    }
+
+    /** Text is streamed a word at a time, followed by the tool calls and the token usage. */
+    private toEventStream(response: ScriptedResponse): ReadableStream<Uint8Array> {
+        const chunks: WorkersAIStreamChunk[] = (response.text ?? "").split(/(?<=\s)/).filter(Boolean).map((word) => ({ response: word }));
+        if (response.toolCalls?.length) {
+            chunks.push({
+                tool_calls: response.toolCalls.map((call, index) => ({
+                    index,
+                    id: call.id ?? `call_${this.nextCallId++}`,
+                    type: "function",
+                    function: {
+                        name: call.name,
+                        arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments ?? {}),
+                    },
+                })),
+            });
+        }
+        chunks.push({ response: "", usage: { prompt_tokens: 100, completion_tokens: chunks.length, total_tokens: 100 + chunks.length } });
+
+        const encoder = new TextEncoder();
+        const events = [...chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`), "data: [DONE]\n\n"];
+        const delayMs = response.delayMs ?? 0;
+        return new ReadableStream({
+            async pull(controller) {
+                if (delayMs > 0) await new Promise((resolve) => setTimeout(resolve, delayMs));
+                const event = events.shift();
+                if (event === undefined) controller.close();
+                else controller.enqueue(encoder.encode(event));
+            },
+        });
+    }
+}
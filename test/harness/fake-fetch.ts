@@ -0,0 +1,49 @@
+/** A canned reply for every request whose URL starts with `url`. Objects are sent as JSON. */
+export type FetchRoute = {
+    url: string;
+    status?: number;
+    body: unknown;
+    /** Answer only this many requests, then leave them to the next matching route. */
+    times?: number;
+};
+
+/** An outbound request as the fake received it. Header names are lower-case. */
+export type RecordedRequest = {
+    url: string;
+    method: string;
+    headers: Record<string, string>;
+    body: string;
+};
+
+/**
+ * Stands in for `fetch` in the agent's outbound requests. Requests are answered from
+ * the first matching route and recorded; a request no route matches fails, so a test
+ * can never reach the network.
+ */
+export class FakeFetch {
+    readonly requests: RecordedRequest[] = [];
+    private routes: FetchRoute[] = [];
+
+    route(routes: FetchRoute[]) {
+        this.routes.push(...routes.map((r) => ({ ...r })));
+    }
+
+    readonly fetch: typeof fetch = async (input, init) => {
+        const request = new Request(input, init);
+        const url = request.url;
+        const headers: Record<string, string> = {};
+        request.headers.forEach((value, name) => {
+            headers[name] = value;
+        });
+        this.requests.push({ url, method: request.method, headers, body: await request.text() });
+        const route = this.routes.find((r) => url.startsWith(r.url) && (r.times === undefined || r.times > 0));
+        if (!route) throw new Error(`No fake response for ${url}.`);
+        if (route.times !== undefined) route.times--;
+
+        const body = typeof route.body === "string" ? route.body : JSON.stringify(route.body);
+        return new Response(body, {
+            status: route.status ?? 200,
+            headers: { "Content-Type": typeof route.body === "string" ? "text/plain" : "application/json" },
+        });
+    };
+}
@@ -0,0 +1,88 @@
+import type { Schedule } from "agents";
+import { parseCronExpression } from "cron-schedule";
+
+type ScheduleCriteria = {
+    id?: string;
+    type?: "scheduled" | "delayed" | "cron" | "interval";
+    timeRange?: { start?: Date; end?: Date };
+};
+
+/**
+ * Stands in for the agent's alarm-backed scheduler. Its clock only moves when a test
+ * advances it, so client tool timeouts and reminders fire on demand. As with the real
+ * scheduler, a firing schedule is only removed (or, for cron, moved to its next slot)
+ * after its callback returns.
+ */
+export class FakeScheduler {
+    /** The scheduler's clock, in epoch milliseconds. */
+    now = Date.now();
+    private schedules = new Map<string, Schedule<unknown>>();
+    private nextId = 1;
+
+    add<T>(when: Date | string | number, callback: string, payload: T): Schedule<T> {
+        const base = { id: `schedule_${this.nextId++}`, callback, payload };
+        let schedule: Schedule<T>;
+        if (when instanceof Date) {
+            schedule = { ...base, type: "scheduled", time: toSeconds(when.getTime()) };
+        } else if (typeof when === "number") {
+            schedule = { ...base, type: "delayed", delayInSeconds: when, time: toSeconds(this.now + when * 1000) };
+        } else {
+            schedule = { ...base, type: "cron", cron: when, time: nextCronTime(when, this.now) };
+        }
+        this.schedules.set(schedule.id, schedule);
+        return schedule;
+    }
+
+    get<T>(id: string): Schedule<T> | undefined {
+        return this.schedules.get(id) as Schedule<T> | undefined;
+    }
+
+    list<T>(criteria: ScheduleCriteria = {}): Schedule<T>[] {
+        const start = criteria.timeRange?.start ? toSeconds(criteria.timeRange.start.getTime()) : -Infinity;
+        const end = criteria.timeRange?.end ? toSeconds(criteria.timeRange.end.getTime()) : Infinity;
+        return [...this.schedules.values()].filter((s) =>
+            (criteria.id === undefined || s.id === criteria.id)
+            && (criteria.type === undefined || s.type === criteria.type)
+            && s.time >= start && s.time <= end
+        ) as Schedule<T>[];
+    }
+
+    cancel(id: string): boolean {
+        return this.schedules.delete(id);
+    }
+
+    /** Moves the clock forward by `seconds`, running every schedule that comes due in time order. */
+    async advance(seconds: number, run: (schedule: Schedule<unknown>) => Promise<void>) {
+        const until = this.now + seconds * 1000;
+        for (;;) {
+            const due = [...this.schedules.values()]
+                .filter((s) => s.time * 1000 <= until)
+                .sort((a, b) => a.time - b.time)[0];
+            if (!due) break;
+
+            this.now = Math.max(this.now, due.time * 1000);
+            await run(due);
+            if (!this.schedules.has(due.id)) continue;
+            if (due.type === "cron") {
+                this.schedules.set(due.id, { ...due, time: nextCronTime(due.cron, due.time * 1000) });
+            } else {
+                this.schedules.delete(due.id);
+            }
+        }
+        this.now = until;
+    }
+}
+
+/** Runs a due schedule the way the agent's alarm would: the named method, called with the payload. */
+export async function runCallback(agent: object, schedule: Schedule<unknown>) {
+    const callback = (agent as Record<string, (payload: unknown, schedule: Schedule<unknown>) => Promise<void>>)[schedule.callback];
+    await callback.call(agent, schedule.payload, schedule);
+}
+
+function toSeconds(ms: number) {
+    return Math.floor(ms / 1000);
+}
+
+function nextCronTime(cron: string, after: number) {
+    return toSeconds(parseCronExpression(cron).getNextDate(new Date(after)).getTime());
+}
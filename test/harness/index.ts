@@ -0,0 +1,44 @@
+export { ChatClient, Turn } from "./chat-client";
+export { TestChatAgent } from "./test-agent";
+export { TestThreadIndexAgent } from "./test-index";
+export type { RecordedModelCall, ScriptedResponse, ScriptedToolCall } from "./fake-ai";
+export type { FetchRoute, RecordedRequest } from "./fake-fetch";
+
+type TestFn = (env: Env) => Promise<void>;
+export type TestResult = { ok: true; ms: number } | { ok: false; ms: number; error: string };
+
+const tests = new Map<string, TestFn>();
+
+/** Registers a test. Test files are imported by `test/worker.ts`, which runs them inside workerd. */
+export function test(name: string, fn: TestFn) {
+    if (tests.has(name)) throw new Error(`Duplicate test name "${name}".`);
+    tests.set(name, fn);
+}
+
+export function listTests(): string[] {
+    return [...tests.keys()];
+}
+
+export async function runTest(name: string, env: Env): Promise<TestResult> {
+    const fn = tests.get(name);
+    const startedAt = Date.now();
+    if (!fn) return { ok: false, ms: 0, error: `No test named "${name}".` };
+    try {
+        await fn(env);
+        return { ok: true, ms: Date.now() - startedAt };
+    } catch (err) {
+        const error = err instanceof Error ? err.stack ?? err.message : String(err);
+        return { ok: false, ms: Date.now() - startedAt, error };
+    }
+}
+
+export function assert(condition: unknown, message = "Assertion failed."): asserts condition {
+    if (!condition) throw new Error(message);
+}
+
+/** Deep equality through JSON, which is what every value crossing RPC or the WebSocket is. */
+export function assertEqual<T>(actual: T, expected: T, message = "Values differ.") {
+    const a = JSON.stringify(actual, null, 2);
+    const b = JSON.stringify(expected, null, 2);
+    if (a !== b) throw new Error(`${message}\nExpected: ${b}\nActual:   ${a}`);
+}
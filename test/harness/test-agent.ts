@@ -0,0 +1,75 @@
+import type { AgentContext, Schedule } from "agents";
+import { ChatAgent } from "../../src/server";
+import type { SageState } from "../../src/state";
+import { ScriptedAi } from "./fake-ai";
+import type { RecordedModelCall, ScriptedResponse } from "./fake-ai";
+import { FakeFetch } from "./fake-fetch";
+import type { FetchRoute } from "./fake-fetch";
+import { FakeScheduler, runCallback } from "./fake-scheduler";
+
+/**
+ * `ChatAgent` with its outside world replaced: the model is a `ScriptedAi`, outbound
+ * requests go to a `FakeFetch` and schedules to a `FakeScheduler`. Everything else,
+ * including SQLite storage and the WebSocket protocol, is the real agent running in
+ * workerd. The methods below are for tests only and are called over RPC.
+ */
+export class TestChatAgent extends ChatAgent {
+    readonly ai: ScriptedAi;
+    readonly web = new FakeFetch();
+    readonly scheduler = new FakeScheduler();
+    protected fetcher = this.web.fetch;
+
+    constructor(ctx: AgentContext, env: Env) {
+        const ai = new ScriptedAi();
+        super(ctx, { ...env, AI: ai.binding() });
+        this.ai = ai;
+    }
+
+    async schedule<T = string>(when: Date | string | number, callback: keyof this, payload?: T): Promise<Schedule<T>> {
+        return this.scheduler.add(when, String(callback), payload as T);
+    }
+
+    getSchedule<T = string>(id: string): Schedule<T> | undefined {
+        return this.scheduler.get<T>(id);
+    }
+
+    getSchedules<T = string>(criteria?: Parameters<ChatAgent["getSchedules"]>[0]): Schedule<T>[] {
+        return this.scheduler.list<T>(criteria);
+    }
+
+    async cancelSchedule(id: string): Promise<boolean> {
+        return this.scheduler.cancel(id);
+    }
+
+    scriptModel(responses: ScriptedResponse[]) {
+        this.ai.script(responses);
+    }
+
+    /** The model calls made so far, and how many scripted responses are left. */
+    modelCalls(): { calls: RecordedModelCall[]; remaining: number } {
+        return { calls: this.ai.calls, remaining: this.ai.remaining };
+    }
+
+    routeFetch(routes: FetchRoute[]) {
+        this.web.route(routes);
+    }
+
+    fetchedUrls(): string[] {
+        return this.web.requests.map((r) => r.url);
+    }
+
+    /** Advances the scheduler's clock and returns the callbacks that ran, in order. */
+    async advanceClock(seconds: number): Promise<string[]> {
+        const fired: string[] = [];
+        await this.scheduler.advance(seconds, async (schedule) => {
+            fired.push(schedule.callback);
+            await runCallback(this, schedule);
+        });
+        return fired;
+    }
+
+    /** The persisted chat history and agent state, as JSON; RPC cannot carry `UIMessage` types. */
+    snapshot(): string {
+        return JSON.stringify({ messages: this.messages, state: this.state satisfies SageState });
+    }
+}
@@ -0,0 +1,55 @@
+import type { Schedule } from "agents";
+import type { ThreadIndexState } from "../../src/state";
+import { ThreadIndexAgent } from "../../src/thread-index";
+import { FakeFetch } from "./fake-fetch";
+import type { FetchRoute, RecordedRequest } from "./fake-fetch";
+import { FakeScheduler, runCallback } from "./fake-scheduler";
+
+/**
+ * `ThreadIndexAgent` with outbound requests going to a `FakeFetch` and schedules to a
+ * `FakeScheduler`, so reminder deliveries and their retries can be driven from a test.
+ * A route for a local URL stands in for a webhook receiver or email API.
+ */
+export class TestThreadIndexAgent extends ThreadIndexAgent {
+    readonly web = new FakeFetch();
+    readonly scheduler = new FakeScheduler();
+    protected fetcher = this.web.fetch;
+
+    async schedule<T = string>(when: Date | string | number, callback: keyof this, payload?: T): Promise<Schedule<T>> {
+        return this.scheduler.add(when, String(callback), payload as T);
+    }
+
+    getSchedule<T = string>(id: string): Schedule<T> | undefined {
+        return this.scheduler.get<T>(id);
+    }
+
+    getSchedules<T = string>(criteria?: Parameters<ThreadIndexAgent["getSchedules"]>[0]): Schedule<T>[] {
+        return this.scheduler.list<T>(criteria);
+    }
+
+    async cancelSchedule(id: string): Promise<boolean> {
+        return this.scheduler.cancel(id);
+    }
+
+    routeFetch(routes: FetchRoute[]) {
+        this.web.route(routes);
+    }
+
+    fetchedRequests(): RecordedRequest[] {
+        return this.web.requests;
+    }
+
+    /** Advances the scheduler's clock and returns the callbacks that ran, in order. */
+    async advanceClock(seconds: number): Promise<string[]> {
+        const fired: string[] = [];
+        await this.scheduler.advance(seconds, async (schedule) => {
+            fired.push(schedule.callback);
+            await runCallback(this, schedule);
+        });
+        return fired;
+    }
+
+    snapshot(): ThreadIndexState {
+        return this.state;
+    }
+}
@@ -0,0 +1,58 @@
+import type { UIMessage } from "ai";
+import { uiMessagesToWorkersAI } from "../src/server";
+import { assertEqual, test } from "./harness";
+
+function toolPart(toolCallId: string, state: string, extra: Record<string, unknown> = {}) {
+    return { type: "tool-searchWeb", toolCallId, state, input: { query: "q" }, ...extra } as unknown as UIMessage["parts"][number];
+}
+
+test("history: tool calls are followed by their results", async () => {
+    const messages: UIMessage[] = [
+        { id: "u1", role: "user", parts: [{ type: "text", text: "Find it" }] },
+        {
+            id: "a1",
+            role: "assistant",
+            parts: [
+                toolPart("c1", "output-available", { output: { results: [] } }),
+                toolPart("c2", "output-error", { errorText: "Search failed" }),
+                toolPart("c3", "output-denied"),
+                { type: "text", text: "Nothing found." },
+            ],
+        },
+    ];
+
+    const converted = uiMessagesToWorkersAI(messages);
+    assertEqual(converted.map((m) => m.role), ["user", "assistant", "tool", "tool", "tool"]);
+    assertEqual(converted[1].content, "Nothing found.");
+    assertEqual(converted[1].tool_calls?.map((c) => c.id), ["c1", "c2", "c3"]);
+    assertEqual(converted.slice(2).map((m) => m.content), [
+        JSON.stringify({ results: [] }),
+        "Error: Search failed",
+        "Error: User rejected this action.",
+    ]);
+});
+
+test("history: unfinished tool calls and empty answers are left out", async () => {
+    const messages: UIMessage[] = [
+        { id: "u1", role: "user", parts: [{ type: "text", text: "Hi" }] },
+        { id: "a1", role: "assistant", parts: [{ type: "data-error", data: { kind: "internal" } }] },
+        { id: "u2", role: "user", parts: [{ type: "text", text: "Where am I?" }] },
+        { id: "a2", role: "assistant", parts: [toolPart("c1", "input-available")] },
+    ];
+
+    assertEqual(uiMessagesToWorkersAI(messages), [
+        { role: "user", content: "Hi" },
+        { role: "user", content: "Where am I?" },
+    ]);
+});
+
+test("history: an approval still waiting keeps its call but has no result yet", async () => {
+    const messages: UIMessage[] = [
+        { id: "u1", role: "user", parts: [{ type: "text", text: "Remind me" }] },
+        { id: "a1", role: "assistant", parts: [toolPart("c1", "approval-requested")] },
+    ];
+
+    const converted = uiMessagesToWorkersAI(messages);
+    assertEqual(converted.map((m) => m.role), ["user", "assistant"]);
+    assertEqual(converted[1].tool_calls?.[0].function, { name: "searchWeb", arguments: JSON.stringify({ query: "q" }) });
+});
@@ -0,0 +1,28 @@
+// Runs the harness tests in workerd. Usage: npm test [-- <name filter>]
+import { unstable_dev } from "wrangler";
+
+const filter = process.argv[2] ?? "";
+const worker = await unstable_dev("test/worker.ts", {
+    config: "test/wrangler.jsonc",
+    persist: false,
+    logLevel: "warn",
+    experimental: { disableExperimentalWarning: true, disableDevRegistry: true },
+});
+
+let failed = 0;
+try {
+    const names = (await (await worker.fetch("/tests")).json()).filter((name) => name.includes(filter));
+    for (const name of names) {
+        const result = await (await worker.fetch(`/tests/${encodeURIComponent(name)}`, { method: "POST" })).json();
+        if (result.ok) {
+            console.log(`✓ ${name} (${result.ms} ms)`);
+        } else {
+            failed++;
+            console.log(`✗ ${name} (${result.ms} ms)\n${result.error.replace(/^/gm, "    ")}`);
+        }
+    }
+    console.log(`\n${names.length - failed} passed, ${failed} failed`);
+} finally {
+    await worker.stop();
+}
+process.exitCode = failed > 0 ? 1 : 0;
@@ -0,0 +1,39 @@
+import { getAgentByName } from "agents";
+import worker from "../src/server";
+import { assert, assertEqual, ChatClient, test } from "./harness";
+import type { TestThreadIndexAgent } from "./harness";
+
+/** A thread opened from a new user's index, with one answered message so it can be shared. */
+async function sharedThread(env: Env) {
+    const owner = crypto.randomUUID();
+    const index = await getAgentByName(env.ThreadIndexAgent as unknown as DurableObjectNamespace<TestThreadIndexAgent>, owner);
+    const thread = await index.createThread();
+    const client = await ChatClient.open(env, thread.id);
+    // The second response titles the thread after its first turn.
+    await client.agent.scriptModel([{ text: "Hello there." }, { text: "Greeting" }]);
+    await client.send("Hi");
+    const share = await client.agent.shareConversation(7);
+    client.close();
+    return { owner, share };
+}
+
+function get(env: Env, path: string) {
+    return worker.fetch(new Request(`http://sage.test${path}`), env);
+}
+
+test("shares: serves a signed link without signing in", async (env) => {
+    const { share } = await sharedThread(env);
+    const res = await get(env, share.path);
+    assertEqual(res.status, 200);
+    assert((await res.text()).includes("Hello there."), "The page shows the conversation.");
+});
+
+test("shares: turns away links whose owner or ID was changed", async (env) => {
+    const { owner, share } = await sharedThread(env);
+    const otherOwner = share.path.replace(encodeURIComponent(owner), "someone-else");
+    assertEqual((await get(env, otherOwner)).status, 404);
+    const otherId = share.path.replace(share.id, crypto.randomUUID());
+    assertEqual((await get(env, otherId)).status, 404);
+    const unsigned = share.path.slice(0, share.path.lastIndexOf("/"));
+    assertEqual((await get(env, unsigned)).status, 404);
+});
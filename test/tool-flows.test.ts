@@ -0,0 +1,169 @@
+import { assert, assertEqual, ChatClient, test } from "./harness";
+
+const REMINDER = { name: "setReminder", arguments: { message: "Stretch", delaySeconds: 60 } };
+
+test("runs an approved tool and resumes the turn", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { text: "I'll set that up.", toolCalls: [REMINDER] },
+        { text: "Your reminder is set." },
+    ]);
+
+    const paused = await client.send("Remind me to stretch in a minute");
+    const [request] = paused.chunksOf("tool-approval-request");
+    assert(request, "The turn asks for approval.");
+    assertEqual(paused.chunksOf("tool-output-available"), []);
+
+    const resumed = await client.approve(request.toolCallId);
+    assertEqual(resumed.text, "Your reminder is set.");
+    const { state } = await client.snapshot();
+    assertEqual(state.upcomingReminders?.map((r) => r.message), ["Stretch"]);
+
+    assertEqual(await client.agent.advanceClock(60), ["onTask"]);
+    const after = await client.snapshot();
+    assertEqual(after.state.firedReminders?.map((r) => r.message), ["Stretch"]);
+    assertEqual(after.state.upcomingReminders, []);
+    client.close();
+});
+
+test("tells the model when the user rejects a tool call", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { toolCalls: [REMINDER] },
+        { text: "Okay, I won't set it." },
+    ]);
+
+    const paused = await client.send("Remind me to stretch in a minute");
+    const [request] = paused.chunksOf("tool-approval-request");
+    const resumed = await client.reject(request.toolCallId);
+    assertEqual(resumed.text, "Okay, I won't set it.");
+
+    const { calls } = await client.agent.modelCalls();
+    const result = calls[1].messages.find((m) => m.role === "tool");
+    assertEqual(result?.content, "Error: User rejected this action.");
+    const { state } = await client.snapshot();
+    assertEqual(state.upcomingReminders, []);
+    client.close();
+});
+
+test("resumes only once every approval in the turn is answered", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        {
+            toolCalls: [
+                REMINDER,
+                { name: "setReminder", arguments: { message: "Drink water", delaySeconds: 120 } },
+            ],
+        },
+        { text: "One reminder is set." },
+    ]);
+
+    const paused = await client.send("Two reminders please");
+    const requests = paused.chunksOf("tool-approval-request");
+    assertEqual(requests.length, 2);
+
+    client.answerApproval(requests[0].toolCallId, false);
+    const resumed = await client.approve(requests[1].toolCallId);
+    assertEqual(resumed.text, "One reminder is set.");
+    const { state } = await client.snapshot();
+    assertEqual(state.upcomingReminders?.map((r) => r.message), ["Drink water"]);
+    assertEqual((await client.agent.modelCalls()).calls.length, 2);
+    client.close();
+});
+
+test("waits for a client tool and continues with the browser's result", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { toolCalls: [{ name: "getUserInfo" }] },
+        { text: "It is evening in Lisbon." },
+    ]);
+
+    const paused = await client.send("What time is it for me?");
+    const [call] = paused.chunksOf("tool-input-available");
+    assertEqual(call?.toolName, "getUserInfo");
+
+    const resumed = await client.returnToolResult(call.toolCallId, "getUserInfo", { timezone: "Europe/Lisbon", localTime: "19:30" });
+    assertEqual(resumed.text, "It is evening in Lisbon.");
+    const { calls } = await client.agent.modelCalls();
+    const result = calls[1].messages.find((m) => m.role === "tool");
+    assert(result?.content.includes("Europe/Lisbon"), "The model sees the browser's result.");
+    client.close();
+});
+
+test("times out a client tool the browser never answers", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { toolCalls: [{ name: "getUserInfo" }] },
+        { text: "I couldn't read your browser settings." },
+    ]);
+
+    const paused = await client.send("What time is it for me?");
+    const [call] = paused.chunksOf("tool-input-available");
+
+    const resuming = client.nextTurn();
+    assertEqual(await client.agent.advanceClock(30), ["onClientToolTimeout"]);
+    const resumed = await resuming;
+    assertEqual(resumed.text, "I couldn't read your browser settings.");
+
+    const { calls } = await client.agent.modelCalls();
+    const result = calls[1].messages.find((m) => m.role === "tool");
+    assert(result?.content.startsWith("Error: The browser did not return a result"), `Unexpected tool result: ${result?.content}`);
+
+    const { traces } = await client.agent.getTraces();
+    const outcomes = traces.flatMap((t) => t.toolCalls.map((c) => c.outcome));
+    assert(outcomes.includes("timeout"), `The trace records the timeout, got ${outcomes.join(", ")}.`);
+
+    const { messages } = await client.snapshot();
+    const part = messages.flatMap((m) => m.parts).find((p) => "toolCallId" in p && p.toolCallId === call.toolCallId);
+    assertEqual(part && "state" in part ? part.state : undefined, "output-error");
+    client.close();
+});
+
+test("queues a chat message behind the turn a client tool result resumes", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { toolCalls: [{ name: "getUserInfo" }] },
+        { text: "It is evening in Lisbon.", delayMs: 40 },
+        { text: "You're welcome." },
+    ]);
+
+    const paused = await client.send("What time is it for me?");
+    const [call] = paused.chunksOf("tool-input-available");
+    const resuming = client.returnToolResult(call.toolCallId, "getUserInfo", { timezone: "Europe/Lisbon", localTime: "19:30" });
+    const followUp = await client.send("Thanks!");
+    await resuming;
+    assertEqual(followUp.text, "You're welcome.");
+
+    const { calls } = await client.agent.modelCalls();
+    assertEqual(calls.length, 3);
+    assert(
+        calls[2].messages.some((m) => m.role === "assistant" && m.content === "It is evening in Lisbon."),
+        "The follow-up turn starts only once the resumed answer is persisted."
+    );
+    const { messages } = await client.snapshot();
+    assertEqual(messages.map((m) => m.role), ["user", "assistant", "assistant", "user", "assistant"]);
+    client.close();
+});
+
+test("stops the turn an approval resumes", async (env) => {
+    const client = await ChatClient.open(env);
+    await client.agent.scriptModel([
+        { toolCalls: [REMINDER] },
+        { text: "Your reminder is set, and here is a long note about stretching well.", delayMs: 40 },
+    ]);
+
+    const paused = await client.send("Remind me to stretch in a minute");
+    const [request] = paused.chunksOf("tool-approval-request");
+    const resuming = client.approve(request.toolCallId);
+    await client.streaming();
+    assertEqual((await client.snapshot()).state.serverTurn, true);
+    assertEqual(await client.agent.stopTurn(), true);
+    const resumed = await resuming;
+    assert(resumed.text.length > 0 && !resumed.text.includes("stretching well"), `The answer was cut short, got "${resumed.text}".`);
+
+    const { messages, state } = await client.snapshot();
+    assertEqual(messages.at(-1)?.metadata, { interrupted: true });
+    assertEqual(state.serverTurn, false);
+    assertEqual(await client.agent.stopTurn(), false);
+    client.close();
+});
@@ -0,0 +1,62 @@
+import { getAgentByName } from "agents";
+import type { UIMessage } from "ai";
+import { createConversationExport, parseConversationExport, toMarkdown } from "../src/transcript";
+import { assert, assertEqual, test } from "./harness";
+import type { TestThreadIndexAgent } from "./harness";
+
+function exportOf(parts: unknown[]) {
+    const messages = [
+        { id: "u1", role: "user", parts: [{ type: "text", text: "What's new?" }] },
+        { id: "a1", role: "assistant", parts },
+    ] as UIMessage[];
+    return JSON.stringify(createConversationExport(messages, { title: "News" }));
+}
+
+async function importError(json: string) {
+    try {
+        await parseConversationExport(json);
+    } catch (err) {
+        return err instanceof Error ? err.message : String(err);
+    }
+    return "";
+}
+
+test("import: accepts every part Sage writes", async () => {
+    const conversation = await parseConversationExport(exportOf([
+        { type: "step-start" },
+        { type: "tool-searchWeb", toolCallId: "c1", state: "output-available", input: { query: "news" }, output: { results: [] } },
+        { type: "source-url", sourceId: "1", url: "https://example.com", title: "Example" },
+        { type: "text", text: "Here is the news." },
+        { type: "data-step-limit", data: { reason: "tools", limit: 8 } },
+        { type: "data-error", data: { kind: "timeout", message: "The model took too long.", retryable: true } },
+    ]));
+    const markdown = toMarkdown(conversation);
+    assert(markdown.includes("Here is the news.") && markdown.includes("[Example](https://example.com)"), markdown);
+});
+
+test("import: refuses parts missing the fields their type calls for", async () => {
+    const malformed = [
+        { type: "text" },
+        { type: "source-url", sourceId: "1" },
+        { type: "tool-searchWeb", state: "output-available", input: {} },
+        { type: "data-error", data: { message: 42 } },
+        { type: "data-something-else", data: {} },
+        { type: "made-up" },
+    ];
+    for (const part of malformed) {
+        const error = await importError(exportOf([part]));
+        assert(error.includes("message part"), `${JSON.stringify(part)} was not refused: "${error}".`);
+    }
+});
+
+test("import: a refused export leaves no thread behind", async (env) => {
+    const index = await getAgentByName(env.ThreadIndexAgent as unknown as DurableObjectNamespace<TestThreadIndexAgent>, crypto.randomUUID());
+    let error = "";
+    try {
+        await index.importThread(exportOf([{ type: "text" }]));
+    } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+    }
+    assert(error.includes("message part"), `Expected the import to be refused, got "${error}".`);
+    assertEqual((await index.snapshot()).threads, []);
+});
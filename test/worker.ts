@@ -0,0 +1,21 @@
+import { listTests, runTest } from "./harness";
+import "./conversation.test";
+import "./tool-flows.test";
+import "./history.test";
+import "./delivery.test";
+import "./shares.test";
+import "./transcript.test";
+
+export { TestChatAgent as ChatAgent, TestThreadIndexAgent as ThreadIndexAgent } from "./harness";
+
+/** Runs inside workerd; `test/run.mjs` lists the registered tests and runs them one request at a time. */
+export default {
+    async fetch(request: Request, env: Env): Promise<Response> {
+        const { pathname } = new URL(request.url);
+        if (pathname === "/tests") return Response.json(listTests());
+        if (pathname.startsWith("/tests/") && request.method === "POST") {
+            return Response.json(await runTest(decodeURIComponent(pathname.slice("/tests/".length)), env));
+        }
+        return new Response("Not found", { status: 404 });
+    },
+} satisfies ExportedHandler<Env>;
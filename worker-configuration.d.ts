@@ -4,12 +4,13 @@
 declare namespace Cloudflare {
 	interface GlobalProps {
 		mainModule: typeof import("./src/server");
-		durableNamespaces: "ChatAgent";
+		durableNamespaces: "ChatAgent" | "ThreadIndexAgent";
 	}
 	interface Env {
 		AI: Ai;
 		ASSETS: Fetcher;
 		ChatAgent: DurableObjectNamespace<import("./src/server").ChatAgent>;
+		ThreadIndexAgent: DurableObjectNamespace<import("./src/server").ThreadIndexAgent>;
 	}
 }
 interface Env extends Cloudflare.Env {}